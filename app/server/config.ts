@@ -0,0 +1,112 @@
+import { readFileSync } from 'node:fs'
+
+// A Home Assistant instance the server proxies to
+export interface HAInstance {
+  id: string
+  name: string
+  // Address the server reaches HA on
+  url: string
+  // Address browsers open HA's login page on, when it differs from `url`
+  externalUrl?: string
+}
+
+export interface ServerConfig {
+  port: number
+  // Built app to serve
+  staticDir: string
+  // The first instance is the default, also served on the unprefixed /ha-api, /ha-auth and /ha-ws
+  instances: HAInstance[]
+}
+
+// What the app is told about each instance by GET /ha-instances
+export interface InstanceInfo {
+  id: string
+  name: string
+  loginUrl: string
+}
+
+const DEFAULT_PORT = 8090
+const DEFAULT_STATIC_DIR = 'dist'
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConfigError'
+  }
+}
+
+const trimUrl = (url: string) => url.replace(/\/+$/, '')
+
+function parseInstance(raw: unknown, index: number): HAInstance {
+  const entry = (raw ?? {}) as Partial<HAInstance>
+  if (typeof entry.url !== 'string' || !/^https?:\/\//.test(entry.url)) {
+    throw new ConfigError(`Instance ${index + 1}: "url" must be an http(s) URL`)
+  }
+  const id = entry.id ?? (index === 0 ? 'default' : `instance-${index + 1}`)
+  if (!/^[a-z0-9_-]+$/i.test(id)) {
+    throw new ConfigError(`Instance ${index + 1}: "id" may only contain letters, digits, "-" and "_"`)
+  }
+  return {
+    id,
+    name: entry.name ?? id,
+    url: trimUrl(entry.url),
+    externalUrl: entry.externalUrl ? trimUrl(entry.externalUrl) : undefined
+  }
+}
+
+// Settings come from a JSON file named by CONFIG_FILE, overridden by the environment:
+// HA_INSTANCES (a JSON array of instances) or a single HA_URL, plus PORT and STATIC_DIR
+export function loadConfig(env: Record<string, string | undefined> = process.env): ServerConfig {
+  let file: Partial<Omit<ServerConfig, 'instances'>> & { instances?: unknown } = {}
+  if (env.CONFIG_FILE) {
+    try {
+      file = JSON.parse(readFileSync(env.CONFIG_FILE, 'utf8'))
+    } catch (e) {
+      throw new ConfigError(`Could not read ${env.CONFIG_FILE}: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  let instances = file.instances
+  if (env.HA_INSTANCES) {
+    try {
+      instances = JSON.parse(env.HA_INSTANCES)
+    } catch {
+      throw new ConfigError('HA_INSTANCES must be a JSON array of {"id", "name", "url"}')
+    }
+  } else if (env.HA_URL) {
+    instances = [{ id: 'default', name: env.HA_NAME ?? 'Home Assistant', url: env.HA_URL, externalUrl: env.HA_EXTERNAL_URL }]
+  }
+  if (!Array.isArray(instances) || instances.length === 0) {
+    throw new ConfigError('No Home Assistant instance configured: set HA_URL, HA_INSTANCES or CONFIG_FILE')
+  }
+
+  const parsed = instances.map(parseInstance)
+  if (new Set(parsed.map(i => i.id)).size !== parsed.length) {
+    throw new ConfigError('Instance ids must be unique')
+  }
+
+  const port = Number(env.PORT ?? file.port ?? DEFAULT_PORT)
+  if (!Number.isInteger(port) || port <= 0) throw new ConfigError(`Invalid port: ${env.PORT ?? file.port}`)
+
+  return {
+    port,
+    staticDir: env.STATIC_DIR ?? file.staticDir ?? DEFAULT_STATIC_DIR,
+    instances: parsed
+  }
+}
+
+export function getInstanceList(config: ServerConfig): InstanceInfo[] {
+  return config.instances.map(i => ({ id: i.id, name: i.name, loginUrl: i.externalUrl ?? i.url }))
+}
+
+// HA path a proxied request goes to, and the instance it is for: /ha/<id>/api|auth|ws,
+// or the unprefixed /ha-api, /ha-auth and /ha-ws for the first instance.
+// Null for anything that isn't a proxy path.
+export function resolveProxyPath(config: ServerConfig, path: string): { instance: HAInstance; path: string } | null {
+  const match = /^\/ha\/([^/]+)\/(api|auth|ws)(\/.*)?$/.exec(path) ?? /^\/ha-(api|auth|ws)(\/.*)?$/.exec(path)
+  if (!match) return null
+  const [id, kind, rest = ''] = match.length === 4 ? match.slice(1) : [config.instances[0].id, ...match.slice(1)]
+  const instance = config.instances.find(i => i.id === id)
+  if (!instance) return null
+  return { instance, path: kind === 'ws' ? '/api/websocket' : `/${kind}${rest}` }
+}
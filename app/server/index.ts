@@ -0,0 +1,101 @@
+// Serves the built app and proxies REST, auth and WebSocket traffic to the
+// Home Assistant instances named in the environment or config file (see config.ts)
+import { createReadStream } from 'node:fs'
+import { stat } from 'node:fs/promises'
+import http, { type IncomingMessage, type ServerResponse } from 'node:http'
+import path from 'node:path'
+import { ConfigError, getInstanceList, loadConfig, resolveProxyPath, type ServerConfig } from './config.js'
+import { proxyRequest, proxyUpgrade } from './proxy.js'
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await stat(file)).isFile()
+  } catch {
+    return false
+  }
+}
+
+// Hashed build assets are cached for good; everything else, index.html above all, is
+// always revalidated so a new build is picked up. Unknown paths get the app (client-side routes).
+async function serveStatic(config: ServerConfig, pathname: string, res: ServerResponse) {
+  const root = path.resolve(config.staticDir)
+  let file = path.join(root, decodeURIComponent(pathname))
+  if (!file.startsWith(root + path.sep) || !(await isFile(file))) {
+    file = path.join(root, 'index.html')
+  }
+  const immutable = pathname.startsWith('/assets/') && file !== path.join(root, 'index.html')
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream',
+    'Cache-Control': immutable ? 'public, max-age=31536000, immutable' : 'no-store, no-cache, must-revalidate'
+  })
+  createReadStream(file)
+    .on('error', () => res.destroy())
+    .pipe(res)
+}
+
+function handleRequest(config: ServerConfig, req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+  if (url.pathname === '/ha-instances') {
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+    res.end(JSON.stringify(getInstanceList(config)))
+    return
+  }
+  const proxied = resolveProxyPath(config, url.pathname)
+  if (proxied) {
+    proxyRequest(req, res, proxied.instance, proxied.path, url.search)
+  } else if (url.pathname.startsWith('/ha/')) {
+    res.writeHead(404, { 'Content-Type': 'application/json', 'X-HA-Proxy-Error': 'unknown-instance' })
+    res.end(JSON.stringify({ message: 'Unknown Home Assistant instance' }))
+  } else if (req.method === 'GET' || req.method === 'HEAD') {
+    serveStatic(config, url.pathname, res).catch(() => {
+      if (!res.headersSent) res.writeHead(500)
+      res.end()
+    })
+  } else {
+    res.writeHead(405)
+    res.end()
+  }
+}
+
+function start() {
+  let config: ServerConfig
+  try {
+    config = loadConfig()
+  } catch (e) {
+    console.error(e instanceof ConfigError ? e.message : e)
+    process.exit(1)
+  }
+
+  const server = http.createServer((req, res) => handleRequest(config, req, res))
+  server.on('upgrade', (req, socket, head) => {
+    const proxied = resolveProxyPath(config, new URL(req.url ?? '/', 'http://localhost').pathname)
+    if (!proxied) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n')
+      return
+    }
+    proxyUpgrade(req, socket, head, proxied.instance, proxied.path)
+  })
+
+  server.listen(config.port, () => {
+    console.log(`Serving ${path.resolve(config.staticDir)} on port ${config.port}`)
+    for (const instance of config.instances) {
+      console.log(`  ${instance.id}: ${instance.name} -> ${instance.url}`)
+    }
+  })
+}
+
+start()
@@ -0,0 +1,92 @@
+// Standalone simulated Home Assistant for development without hardware and for
+// end-to-end tests. Point the app server or dev server at it (HA_URL=http://localhost:8123).
+//
+//   MOCK_SETUP  JSON file with the areas and lights to simulate (see SimulatorSetup)
+//   MOCK_TOKEN  the only access token accepted; any token works when unset
+//   PORT        port to listen on (default 8123)
+//
+// POST /mock/reset puts every light back and forgets all scenes, scripts and
+// automations, for a clean slate between tests.
+import { readFileSync } from 'node:fs'
+import http, { type IncomingMessage, type ServerResponse } from 'node:http'
+import { createSimulator, DEFAULT_SETUP, type SimulatorSession, type SimulatorSetup } from '../src/haSimulator.js'
+import { acceptWebSocket } from './websocket.js'
+
+const DEFAULT_PORT = 8123
+
+function loadSetup(): SimulatorSetup {
+  const setup: SimulatorSetup = process.env.MOCK_SETUP
+    ? JSON.parse(readFileSync(process.env.MOCK_SETUP, 'utf8'))
+    : DEFAULT_SETUP
+  return process.env.MOCK_TOKEN ? { ...setup, token: process.env.MOCK_TOKEN } : setup
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  const text = typeof body === 'string' ? body : JSON.stringify(body)
+  res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' })
+  res.end(text)
+}
+
+function start() {
+  const simulator = createSimulator(loadSetup())
+  const port = Number(process.env.PORT ?? DEFAULT_PORT)
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    try {
+      if (url.pathname === '/mock/reset' && req.method === 'POST') {
+        simulator.reset()
+        sendJson(res, 200, { result: 'ok' })
+      } else if (url.pathname === '/api' || url.pathname.startsWith('/api/')) {
+        const body = await readBody(req)
+        const { status, body: reply } = simulator.handleRequest(
+          req.method ?? 'GET',
+          url.pathname,
+          body || null,
+          req.headers.authorization ?? null
+        )
+        sendJson(res, status, reply)
+      } else {
+        sendJson(res, 404, { message: 'Not found' })
+      }
+    } catch (e) {
+      sendJson(res, 500, { message: e instanceof Error ? e.message : String(e) })
+    }
+  })
+
+  server.on('upgrade', (req, socket) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/api/websocket') {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n')
+      return
+    }
+    let session: SimulatorSession | null = null
+    const ws = acceptWebSocket(
+      req,
+      socket,
+      text => {
+        try {
+          session?.receive(JSON.parse(text))
+        } catch {
+          ws?.close()
+        }
+      },
+      () => session?.close()
+    )
+    if (ws) session = simulator.connect(message => ws.send(JSON.stringify(message)))
+  })
+
+  server.listen(port, () => {
+    console.log(`Simulated Home Assistant on port ${port}`)
+  })
+}
+
+start()
@@ -0,0 +1,74 @@
+import http, { type IncomingHttpHeaders, type IncomingMessage, type ServerResponse } from 'node:http'
+import https from 'node:https'
+import type { Duplex } from 'node:stream'
+import type { HAInstance } from './config.js'
+
+// Headers that describe one hop only and must not be forwarded (RFC 9110 §7.6.1)
+const HOP_HEADERS = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'te', 'trailer', 'upgrade']
+
+function getTarget(instance: HAInstance, path: string, search: string) {
+  const target = new URL(path + search, instance.url)
+  return { target, client: target.protocol === 'https:' ? https : http }
+}
+
+// The request as HA should see it: addressed to HA's own host, like a direct call
+function forwardHeaders(req: IncomingMessage, target: URL, keepUpgrade: boolean) {
+  const headers: IncomingHttpHeaders = { ...req.headers, host: target.host }
+  if (!keepUpgrade) {
+    for (const name of HOP_HEADERS) delete headers[name]
+  }
+  // HA answers requests that look forwarded with 400 unless the proxy is in trusted_proxies
+  delete headers['x-forwarded-for']
+  delete headers.origin
+  return headers
+}
+
+// Forward a REST or auth request and stream the response back
+export function proxyRequest(req: IncomingMessage, res: ServerResponse, instance: HAInstance, path: string, search: string) {
+  const { target, client } = getTarget(instance, path, search)
+  const upstream = client.request(target, { method: req.method, headers: forwardHeaders(req, target, false) }, upstreamRes => {
+    const headers = { ...upstreamRes.headers }
+    for (const name of HOP_HEADERS) delete headers[name]
+    res.writeHead(upstreamRes.statusCode ?? 502, headers)
+    upstreamRes.pipe(res)
+  })
+  upstream.on('error', err => {
+    if (res.headersSent) {
+      res.destroy(err)
+      return
+    }
+    res.writeHead(502, { 'Content-Type': 'application/json', 'X-HA-Proxy-Error': 'unreachable' })
+    res.end(JSON.stringify({ message: `Home Assistant at ${instance.url} is unreachable: ${err.message}` }))
+  })
+  req.pipe(upstream)
+}
+
+// Open the WebSocket handshake with HA and, once it upgrades, pipe both sockets together
+export function proxyUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer, instance: HAInstance, path: string) {
+  const { target, client } = getTarget(instance, path, '')
+  const upstream = client.request(target, { method: req.method, headers: forwardHeaders(req, target, true) })
+
+  upstream.on('upgrade', (upstreamRes, upstreamSocket, upstreamHead) => {
+    const lines = [`HTTP/1.1 ${upstreamRes.statusCode} ${upstreamRes.statusMessage}`]
+    for (let i = 0; i < upstreamRes.rawHeaders.length; i += 2) {
+      lines.push(`${upstreamRes.rawHeaders[i]}: ${upstreamRes.rawHeaders[i + 1]}`)
+    }
+    socket.write(lines.join('\r\n') + '\r\n\r\n')
+    if (upstreamHead.length) socket.write(upstreamHead)
+    if (head.length) upstreamSocket.write(head)
+    upstreamSocket.pipe(socket).pipe(upstreamSocket)
+    upstreamSocket.on('error', () => socket.destroy())
+    socket.on('error', () => upstreamSocket.destroy())
+    upstreamSocket.on('close', () => socket.destroy())
+    socket.on('close', () => upstreamSocket.destroy())
+  })
+  // HA refused the upgrade; pass its answer on and hang up
+  upstream.on('response', upstreamRes => {
+    socket.end(`HTTP/1.1 ${upstreamRes.statusCode} ${upstreamRes.statusMessage}\r\nConnection: close\r\n\r\n`)
+    upstreamRes.resume()
+  })
+  upstream.on('error', () => {
+    socket.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n')
+  })
+  upstream.end()
+}
@@ -0,0 +1,183 @@
+// Smoke check for the mock server: starts it and goes through what the app does with
+// Home Assistant, over REST and the WebSocket. Build first (npm run build:server);
+// exits non-zero at the first check that fails.
+//
+//   PORT  port to run the mock on (default 18123)
+import { spawn, type ChildProcess } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+import { connectWebSocket, type TextSocket } from './websocket.js'
+
+const DEFAULT_PORT = 18123
+const TOKEN = 'smoke-test-token'
+const STARTUP_TIMEOUT_MS = 10_000
+const REPLY_TIMEOUT_MS = 5_000
+
+type Message = Record<string, unknown>
+
+interface HAState {
+  entity_id: string
+  state: string
+  attributes: Record<string, unknown>
+}
+
+function check(condition: unknown, what: string): asserts condition {
+  if (!condition) throw new Error(`not ok - ${what}`)
+  console.log(`ok - ${what}`)
+}
+
+// The mock as `npm run mock` runs it, resolved once it's listening
+function startMock(port: number): Promise<ChildProcess> {
+  const script = fileURLToPath(new URL('./mock.js', import.meta.url))
+  const child = spawn(process.execPath, [script], {
+    env: { ...process.env, PORT: String(port), MOCK_TOKEN: TOKEN },
+    stdio: ['ignore', 'pipe', 'inherit']
+  })
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      child.kill()
+      reject(new Error('Mock server did not start'))
+    }, STARTUP_TIMEOUT_MS)
+    child.stdout?.on('data', (chunk: Buffer) => {
+      if (!chunk.toString('utf8').includes('Simulated Home Assistant')) return
+      clearTimeout(timer)
+      resolve(child)
+    })
+    child.on('exit', code => {
+      clearTimeout(timer)
+      reject(new Error(`Mock server exited with code ${code}`))
+    })
+  })
+}
+
+async function api<T>(base: string, method: string, path: string, body?: unknown, token = TOKEN) {
+  const res = await fetch(`${base}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+  // Errors like the 401 come back as plain text, as from Home Assistant
+  const text = await res.text()
+  const json = res.headers.get('content-type')?.includes('application/json')
+  return { status: res.status, body: (json ? JSON.parse(text) : text) as T }
+}
+
+// WebSocket client that hands out messages in order, or fails if none comes in time
+async function openSession(base: string) {
+  const inbox: Message[] = []
+  let wake = () => {}
+  let closed = false
+  const ws: TextSocket = await connectWebSocket(
+    `${base.replace(/^http/, 'ws')}/api/websocket`,
+    text => {
+      inbox.push(JSON.parse(text))
+      wake()
+    },
+    () => {
+      closed = true
+      wake()
+    }
+  )
+
+  const next = async (): Promise<Message> => {
+    const deadline = Date.now() + REPLY_TIMEOUT_MS
+    while (inbox.length === 0) {
+      if (closed) throw new Error('WebSocket closed')
+      if (Date.now() > deadline) throw new Error('No WebSocket message in time')
+      await new Promise<void>(resolve => {
+        wake = resolve
+        setTimeout(resolve, 100)
+      })
+    }
+    return inbox.shift()!
+  }
+
+  let nextId = 1
+  // Sends a command and waits for its result, passing events by
+  const command = async (message: Message): Promise<Message> => {
+    const id = nextId++
+    ws.send(JSON.stringify({ ...message, id }))
+    for (;;) {
+      const reply = await next()
+      if (reply.id === id && reply.type === 'result') return reply
+    }
+  }
+
+  return { send: (message: Message) => ws.send(JSON.stringify(message)), next, command, close: ws.close }
+}
+
+async function run(base: string) {
+  const unauthorized = await api(base, 'GET', '/api/states', undefined, 'wrong-token')
+  check(unauthorized.status === 401, 'REST rejects a wrong token')
+
+  const { status, body: states } = await api<HAState[]>(base, 'GET', '/api/states')
+  const lights = states.filter(s => s.entity_id.startsWith('light.'))
+  check(status === 200 && lights.length > 0, `REST lists states (${lights.length} lights)`)
+
+  const session = await openSession(base)
+  try {
+    check((await session.next()).type === 'auth_required', 'WebSocket asks for auth')
+    session.send({ type: 'auth', access_token: TOKEN })
+    check((await session.next()).type === 'auth_ok', 'WebSocket accepts the token')
+
+    const listed = await session.command({ type: 'get_states' })
+    check(listed.success && (listed.result as HAState[]).length === states.length, 'WebSocket lists the same states')
+
+    const registry = await session.command({ type: 'config/entity_registry/list' })
+    const registered = new Set((registry.result as { entity_id: string }[]).map(e => e.entity_id))
+    check(lights.every(l => registered.has(l.entity_id)), 'Entity registry has every light')
+
+    // A scene that turns a color light red, saved and turned on the way the app does it
+    const light = lights.find(l => !Array.isArray(l.attributes.entity_id) &&
+      (l.attributes.supported_color_modes as string[]).some(m => ['rgb', 'hs', 'xy'].includes(m)))
+    check(light, `Found a color light (${light?.entity_id})`)
+    await session.command({ type: 'subscribe_events', event_type: 'state_changed' })
+
+    const saved = await api(base, 'POST', '/api/config/scene/config/smoke_test', {
+      id: 'smoke_test',
+      name: 'Smoke test',
+      entities: { [light.entity_id]: { state: 'on', rgb_color: [255, 0, 0], brightness: 200 } }
+    })
+    check(saved.status === 200, 'Scene config is saved')
+
+    const afterSave = await api<HAState[]>(base, 'GET', '/api/states')
+    const scene = afterSave.body.find(s => s.entity_id.startsWith('scene.') && s.attributes.id === 'smoke_test')
+    check(scene, `Scene shows up as ${scene?.entity_id}`)
+
+    await api(base, 'POST', '/api/services/scene/turn_on', { entity_id: scene.entity_id })
+    const lit = await api<HAState>(base, 'GET', `/api/states/${light.entity_id}`)
+    check(
+      lit.body.state === 'on' && JSON.stringify(lit.body.attributes.rgb_color) === '[255,0,0]',
+      'Turning the scene on lights it red'
+    )
+    // Past the event for the new scene entity itself
+    const changedId = (message: Message) => (message.event as { data: { entity_id: string } } | undefined)?.data.entity_id
+    let event = await session.next()
+    while (changedId(event) !== light.entity_id) event = await session.next()
+    check(event.type === 'event', 'WebSocket reports the light changing')
+
+    const reset = await fetch(`${base}/mock/reset`, { method: 'POST' })
+    check(reset.status === 200, 'Mock resets')
+    const gone = await api(base, 'GET', '/api/config/scene/config/smoke_test')
+    const off = await api<HAState>(base, 'GET', `/api/states/${light.entity_id}`)
+    check(gone.status === 404 && off.body.state === 'off', 'Reset forgets the scene and turns the light off')
+  } finally {
+    session.close()
+  }
+}
+
+async function main() {
+  const port = Number(process.env.PORT ?? DEFAULT_PORT)
+  const mock = await startMock(port)
+  try {
+    await run(`http://localhost:${port}`)
+    console.log('Mock server smoke check passed')
+  } finally {
+    mock.removeAllListeners('exit')
+    mock.kill()
+  }
+}
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e)
+  process.exitCode = 1
+})
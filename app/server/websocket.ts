@@ -0,0 +1,181 @@
+import { createHash, randomBytes } from 'node:crypto'
+import http, { type IncomingMessage } from 'node:http'
+import type { Duplex } from 'node:stream'
+
+// Fixed by RFC 6455 for the Sec-WebSocket-Accept handshake
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+const OPCODE_CONTINUATION = 0x0
+const OPCODE_TEXT = 0x1
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+export interface TextSocket {
+  send(text: string): void
+  close(): void
+}
+
+// Client frames must be masked; server frames never are
+function encodeFrame(opcode: number, payload: Buffer, masked = false): Buffer {
+  const length = payload.length
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10)
+  header[0] = 0x80 | opcode
+  if (length < 126) {
+    header[1] = length
+  } else if (length < 65536) {
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  if (!masked) return Buffer.concat([header, payload])
+  header[1] |= 0x80
+  const mask = randomBytes(4)
+  const body = Buffer.from(payload)
+  for (let i = 0; i < body.length; i++) body[i] ^= mask[i % 4]
+  return Buffer.concat([header, mask, body])
+}
+
+function acceptKey(key: string): string {
+  return createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64')
+}
+
+// Text messages over a socket that has finished its handshake, from either side.
+// Unmasks whatever frames come in masked, replies to pings and closes.
+function openTextSocket(
+  socket: Duplex,
+  head: Buffer,
+  isClient: boolean,
+  onText: (text: string) => void,
+  onClose: () => void
+): TextSocket {
+  let buffered = Buffer.alloc(0)
+  let fragments: Buffer[] = []
+  let open = true
+
+  const close = () => {
+    if (!open) return
+    open = false
+    socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0), isClient))
+    onClose()
+  }
+
+  // Take every complete frame off the front of the buffer
+  const readFrames = () => {
+    while (buffered.length >= 2) {
+      const fin = (buffered[0] & 0x80) !== 0
+      const opcode = buffered[0] & 0x0f
+      const masked = (buffered[1] & 0x80) !== 0
+      let length = buffered[1] & 0x7f
+      let offset = 2
+      if (length === 126) {
+        if (buffered.length < 4) return
+        length = buffered.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (buffered.length < 10) return
+        length = Number(buffered.readBigUInt64BE(2))
+        offset = 10
+      }
+      const mask = masked ? buffered.subarray(offset, offset + 4) : null
+      if (mask) offset += 4
+      if (buffered.length < offset + length) return
+
+      const payload = Buffer.from(buffered.subarray(offset, offset + length))
+      if (mask) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+      }
+      buffered = buffered.subarray(offset + length)
+
+      if (opcode === OPCODE_TEXT || opcode === OPCODE_CONTINUATION) {
+        fragments.push(payload)
+        if (fin) {
+          const text = Buffer.concat(fragments).toString('utf8')
+          fragments = []
+          onText(text)
+        }
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload, isClient))
+      } else if (opcode === OPCODE_CLOSE) {
+        close()
+        return
+      }
+    }
+  }
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk])
+    readFrames()
+  })
+  socket.on('close', () => {
+    if (!open) return
+    open = false
+    onClose()
+  })
+  socket.on('error', () => socket.destroy())
+  // Frames that arrived along with the handshake
+  if (head.length > 0) socket.emit('data', head)
+
+  return {
+    send(text) {
+      if (open) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8'), isClient))
+    },
+    close
+  }
+}
+
+// Server side of a WebSocket carrying text messages, enough for the mock server
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+  onText: (text: string) => void,
+  onClose: () => void
+): TextSocket | null {
+  const key = req.headers['sec-websocket-key']
+  if (typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n')
+    return null
+  }
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${acceptKey(key)}`
+  ].join('\r\n') + '\r\n\r\n')
+  return openTextSocket(socket, Buffer.alloc(0), false, onText, onClose)
+}
+
+// Client side, for checking the mock server from Node without a WebSocket package
+export function connectWebSocket(
+  url: string,
+  onText: (text: string) => void,
+  onClose: () => void
+): Promise<TextSocket> {
+  const key = randomBytes(16).toString('base64')
+  return new Promise((resolve, reject) => {
+    const req = http.request(url.replace(/^ws/, 'http'), {
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': key,
+        'Sec-WebSocket-Version': '13'
+      }
+    })
+    req.on('upgrade', (res, socket, head) => {
+      if (res.headers['sec-websocket-accept'] !== acceptKey(key)) {
+        socket.destroy()
+        reject(new Error('WebSocket handshake answered with the wrong accept key'))
+        return
+      }
+      resolve(openTextSocket(socket, head, true, onText, onClose))
+    })
+    req.on('response', res => {
+      res.resume()
+      reject(new Error(`WebSocket upgrade refused with HTTP ${res.statusCode}`))
+    })
+    req.on('error', reject)
+    req.end()
+  })
+}
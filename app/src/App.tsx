@@ -1,168 +1,223 @@
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import './App.css'
+import { extractPalette } from './palette'
+import { describeColor } from './color'
+import {
+  DEFAULT_ANIMATION,
+  getFrameSamples,
+  getKeyframeTimes,
+  getPathPosition,
+  type AnimationSettings,
+  type PathKind
+} from './animation'
+import { sampleRegion, type RegionMode } from './sampling'
+import {
+  EMPTY_LAYOUT,
+  getLayoutPosition,
+  jitterPoint,
+  loadLayouts,
+  mapToImage,
+  saveLayouts,
+  type AreaLayout,
+  type LayoutMapping,
+  type LayoutStore,
+  type Rotation
+} from './layout'
+import {
+  loadProfileStore,
+  resolveProfile,
+  saveProfileStore,
+  type ProfileStore
+} from './profiles'
+import { callService, setAuthFailureHandler, setTokenRefresher } from './ha'
+import {
+  clearAuthSession,
+  completeLogin,
+  getSavedHaUrl,
+  isExpiring,
+  loadAuthSession,
+  refreshAuthSession,
+  revokeAuthSession,
+  startLogin,
+  type AuthSession
+} from './auth'
+import { createConnection, type HAConnection, type StateChangedData } from './haSocket'
+import { DEMO_TOKEN, startDemo, stopDemo } from './demo'
+import { fetchInstances, getActiveConnection, profileKey, type HAInstanceInfo } from './connections'
+import {
+  getDefaultColorMode,
+  getEntityArea,
+  getGroupMode,
+  getMultiAreaLights,
+  getSceneLights,
+  type GroupMode
+} from './lights'
+import {
+  buildEntityState,
+  getPreviewColor,
+  getSampleBrightness,
+  type BrightnessMode,
+  type LightTarget,
+  type SceneEntityState
+} from './scene'
+import {
+  createMetadata,
+  deleteSceneConfig,
+  duplicateScene,
+  encodeSceneImage,
+  findFreeSceneId,
+  findSceneEntityId,
+  listGeneratorScenes,
+  METADATA_KEY,
+  renameScene,
+  saveSceneConfig,
+  sceneExists,
+  toSceneId,
+  type GeneratorMetadata,
+  type SampleMetadata,
+  type SceneConfig,
+  type StoredScene
+} from './sceneStore'
+import { getImportMetadata } from './sceneFile'
+import { createSharedLook, getLookMetadata, readSharedLook, toShareUrl, type SharedLook } from './share'
+import {
+  buildLoopScript,
+  buildStopScript,
+  findFreeScriptId,
+  saveScriptConfig,
+  scriptExists,
+  toStopScriptId,
+  type Keyframe
+} from './scriptStore'
+import {
+  automationExists,
+  buildSceneAutomation,
+  describeTrigger,
+  findFreeAutomationId,
+  saveAutomationConfig,
+  toScheduleId,
+  type ScheduleOptions,
+  type ScheduleTrigger
+} from './automationStore'
+import { getBandSamples, type DayCycleSlot } from './dayCycle'
+import { captureLights, restoreLights, type RoomSnapshot } from './snapshot'
+import { useLivePreview, type PreviewSnapshot } from './useLivePreview'
+import { useTimeline } from './useTimeline'
+import { useHistory } from './useHistory'
+import ScenesView from './components/ScenesView'
+import AnimationTimeline from './components/AnimationTimeline'
+import LayoutEditor from './components/LayoutEditor'
+import LightsList from './components/LightsList'
+import BatchReport, { type BatchResult } from './components/BatchReport'
+import SceneFileDialog, { type ImportTarget } from './components/SceneFileDialog'
+import ScheduleDialog from './components/ScheduleDialog'
+import CalibrationWizard from './components/CalibrationWizard'
+import PaletteGenerator from './components/PaletteGenerator'
+import ConnectionPicker from './components/ConnectionPicker'
+import SimulatedLights from './components/SimulatedLights'
+import type {
+  Area,
+  ColorMode,
+  DeviceRegistryEntry,
+  EntityRegistryEntry,
+  HAState,
+  Light,
+  Point,
+  SamplePoint
+} from './types'
 
 // Constants
 const MAX_IMAGE_WIDTH = 500
+// Cap on the full-resolution copy used for sampling (longest side, px)
+const MAX_SOURCE_DIMENSION = 4096
+const DEFAULT_SAMPLE_RADIUS = 0.02
+const MAX_SAMPLE_RADIUS = 0.1
 const MIN_DOT_DISTANCE = 0.12
 const EDGE_PADDING = 0.08
 const POSITION_RANGE = 1 - (EDGE_PADDING * 2)
 const MAX_POSITION_ATTEMPTS = 50
 const STATUS_TIMEOUT_MS = 5000
 const HIGHLIGHT_DURATION_MS = 1500
-
-interface Area {
-  id: string
-  name: string
+const DEFAULT_PALETTE_SIZE = 3
+const DEFAULT_MIN_BRIGHTNESS = 40
+const MAX_PALETTE_SIZE = 8
+// Points closer than this (fraction of width) are dropped while drawing a path
+const MIN_PATH_STEP = 0.01
+// Segments used to draw a dot's path on the canvas
+const PATH_PREVIEW_STEPS = 64
+// Arrow-key nudge of a focused dot, as a fraction of the image (Shift for the larger step)
+const NUDGE_STEP = 0.01
+const NUDGE_STEP_LARGE = 0.05
+const NUDGE_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1]
 }
+const DEFAULT_SPATIAL_JITTER = 0.03
+const MAX_SPATIAL_JITTER = 0.15
 
-interface Light {
-  entity_id: string
-  name: string
-  supports_color: boolean
-}
+const REGISTRY_EVENTS = ['area_registry_updated', 'entity_registry_updated', 'device_registry_updated']
 
-interface HAState {
-  entity_id: string
-  attributes: {
-    friendly_name?: string
-    supported_color_modes?: string[]
-    is_hue_group?: boolean
-  }
-}
+type SamplingMode = 'random' | 'palette' | 'spatial'
+// With several areas selected: one scene spanning all of them, or one scene per area
+type SceneScope = 'combined' | 'per-area'
 
-interface SamplePoint {
+// A scene that exists in Home Assistant: its config id and the entity it shows up as
+interface SavedScene {
   id: string
-  x: number
-  y: number
-  r: number
-  g: number
-  b: number
-  lightName: string
+  name: string
+  entityId: string
 }
 
-function getErrorMessage(e: unknown): string {
-  return e instanceof Error ? e.message : String(e)
+// What undo/redo covers: the image, its dots and the brightness settings
+interface EditorState {
+  image: string | null
+  preset: string | null
+  samples: SamplePoint[]
+  brightness: number
+  brightnessMode: BrightnessMode
+  minBrightness: number
+  maxBrightness: number
 }
 
-// Assign entity to area via WebSocket API (required - REST API doesn't support entity registry updates)
-function assignEntityArea(entityId: string, areaId: string, token: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
-    const ws = new WebSocket(`${protocol}//${window.location.host}/ha-ws`)
-    let msgId = 1
-
-    const timeout = setTimeout(() => {
-      ws.close()
-      reject(new Error('WebSocket timeout'))
-    }, 10000)
-
-    ws.onopen = () => {
-      // Wait for auth_required message
-    }
-
-    ws.onmessage = (event) => {
-      const msg = JSON.parse(event.data)
-
-      if (msg.type === 'auth_required') {
-        ws.send(JSON.stringify({ type: 'auth', access_token: token }))
-      } else if (msg.type === 'auth_ok') {
-        // Send entity registry update
-        ws.send(JSON.stringify({
-          id: msgId++,
-          type: 'config/entity_registry/update',
-          entity_id: entityId,
-          area_id: areaId
-        }))
-      } else if (msg.type === 'result') {
-        clearTimeout(timeout)
-        ws.close()
-        if (msg.success) {
-          resolve()
-        } else {
-          reject(new Error(msg.error?.message || 'Failed to assign area'))
-        }
-      }
-    }
-
-    ws.onerror = () => {
-      clearTimeout(timeout)
-      reject(new Error('WebSocket connection failed'))
-    }
-  })
+function isSameEditorState(a: EditorState, b: EditorState): boolean {
+  return a.image === b.image
+    && a.preset === b.preset
+    && a.brightness === b.brightness
+    && a.brightnessMode === b.brightnessMode
+    && a.minBrightness === b.minBrightness
+    && a.maxBrightness === b.maxBrightness
+    && JSON.stringify(a.samples) === JSON.stringify(b.samples)
 }
 
-// Convert RGB to HSL
-function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
-  r /= 255; g /= 255; b /= 255
-  const max = Math.max(r, g, b), min = Math.min(r, g, b)
-  let h = 0, s = 0
-  const l = (max + min) / 2
-
-  if (max !== min) {
-    const d = max - min
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
-    switch (max) {
-      case r: h = ((g - b) / d + (g < b ? 6 : 0)) / 6; break
-      case g: h = ((b - r) / d + 2) / 6; break
-      case b: h = ((r - g) / d + 4) / 6; break
-    }
-  }
-  return [h * 360, s * 100, l * 100]
+// Text fields keep the browser's own undo
+function isTextInput(target: EventTarget | null): boolean {
+  if (target instanceof HTMLTextAreaElement) return true
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'file'].includes(target.type)
 }
 
-// Convert HSL to RGB
-function hslToRgb(h: number, s: number, l: number): [number, number, number] {
-  h /= 360; s /= 100; l /= 100
-  let r, g, b
-
-  if (s === 0) {
-    r = g = b = l
-  } else {
-    const hue2rgb = (p: number, q: number, t: number) => {
-      if (t < 0) t += 1
-      if (t > 1) t -= 1
-      if (t < 1/6) return p + (q - p) * 6 * t
-      if (t < 1/2) return q
-      if (t < 2/3) return p + (q - p) * (2/3 - t) * 6
-      return p
-    }
-    const q = l < 0.5 ? l * (1 + s) : l + s - l * s
-    const p = 2 * l - q
-    r = hue2rgb(p, q, h + 1/3)
-    g = hue2rgb(p, q, h)
-    b = hue2rgb(p, q, h - 1/3)
-  }
-  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)]
+const PATH_KIND_LABELS: Record<PathKind, string> = {
+  drift: 'Drift',
+  orbit: 'Orbit',
+  drawn: 'Drawn'
 }
 
-// Normalize color for smart bulbs - moderate boost to saturation and lightness
-function normalizeColor(r: number, g: number, b: number): [number, number, number] {
-  let [h, s, l] = rgbToHsl(r, g, b)
-
-  // Moderate saturation boost for desaturated colors
-  if (s < 40) {
-    s = Math.min(100, s * 1.4 + 12)
-  }
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e)
+}
 
-  // Lift dark colors (< 25% lightness)
-  if (l < 25) {
-    l = 25 + (l / 25) * 10 // Map 0-25 to 25-35
+// Pointer position inside an element, normalized and clamped to 0-1
+function getRelativePosition(el: HTMLElement, clientX: number, clientY: number): Point {
+  const rect = el.getBoundingClientRect()
+  return {
+    x: Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)),
+    y: Math.max(0, Math.min(1, (clientY - rect.top) / rect.height))
   }
-
-  return hslToRgb(h, s, l)
 }
 
-async function haFetch(endpoint: string, token: string, options: RequestInit = {}, asText = false) {
-  const resp = await fetch(`/ha-api${endpoint}`, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-      ...options.headers
-    }
-  })
-  if (!resp.ok) throw new Error(`API error: ${resp.status}`)
-  return asText ? resp.text() : resp.json()
+function toSvgPoints(points: Point[]): string {
+  return points.map(p => `${p.x},${p.y}`).join(' ')
 }
 
 const PRESETS = [
@@ -184,91 +239,305 @@ const PRESETS = [
 ]
 
 function App() {
-  const [token, setToken] = useState(localStorage.getItem('ha-token') || '')
+  const [token, setToken] = useState(() => loadAuthSession()?.accessToken ?? localStorage.getItem(profileKey('ha-token')) ?? '')
+  const [haUrl, setHaUrl] = useState(getSavedHaUrl)
   const [connected, setConnected] = useState(false)
   const [areas, setAreas] = useState<Area[]>([])
-  const [selectedArea, setSelectedArea] = useState('')
-  const [lights, setLights] = useState<Light[]>([])
+  const [selectedAreas, setSelectedAreas] = useState<string[]>(
+    () => JSON.parse(localStorage.getItem(profileKey('ha-areas')) || '[]')
+  )
+  // Instances the server can proxy to, for the connection profiles
+  const [instances, setInstances] = useState<HAInstanceInfo[]>([])
+  // Talking to the built-in simulated Home Assistant instead of a real one
+  const [demo, setDemo] = useState(false)
+  // Home Assistant stopped accepting the login while connected
+  const [loginExpired, setLoginExpired] = useState(false)
+  const [sceneScope, setSceneScope] = useState<SceneScope>('combined')
+  const [registry, setRegistry] = useState<{ entities: EntityRegistryEntry[]; devices: DeviceRegistryEntry[] }>({ entities: [], devices: [] })
+  const [states, setStates] = useState<Map<string, HAState>>(new Map())
   const [selectedLights, setSelectedLights] = useState<Set<string>>(new Set())
   const [imageUrl, setImageUrl] = useState<string | null>(null)
   const [samples, setSamples] = useState<SamplePoint[]>([])
   const [sceneName, setSceneName] = useState('Image Scene')
   const [brightness, setBrightness] = useState(255)
-  const [status, setStatus] = useState<{ msg: string; type: 'success' | 'error'; key: number } | null>(null)
+  const [brightnessMode, setBrightnessMode] = useState<BrightnessMode>('manual')
+  const [minBrightness, setMinBrightness] = useState(DEFAULT_MIN_BRIGHTNESS)
+  const [maxBrightness, setMaxBrightness] = useState(255)
+  // Sample whose swatch is open for per-light editing
+  const [editingSample, setEditingSample] = useState<string | null>(null)
+  // Sampling region radius as a fraction of image width (0 = single pixel)
+  const [sampleRadius, setSampleRadius] = useState(DEFAULT_SAMPLE_RADIUS)
+  const [regionMode, setRegionMode] = useState<RegionMode>('average')
+  const [status, setStatus] = useState<{ msg: string; type: 'success' | 'warning' | 'error'; key: number } | null>(null)
   const [dragging, setDragging] = useState<string | null>(null)
   const [highlighted, setHighlighted] = useState<string | null>(null)
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null)
   const [isDragOver, setIsDragOver] = useState(false)
+  // Harmony/gradient generator shown in place of a photo
+  const [generating, setGenerating] = useState(false)
+  const [samplingMode, setSamplingMode] = useState<SamplingMode>('random')
+  const [paletteSize, setPaletteSize] = useState(DEFAULT_PALETTE_SIZE)
+  const [livePreview, setLivePreview] = useState(false)
+  const [normalize, setNormalize] = useState(true)
+  const [view, setView] = useState<'editor' | 'scenes'>('editor')
+  const [storedScenes, setStoredScenes] = useState<StoredScene[] | null>(null)
+  const [editingSceneId, setEditingSceneId] = useState<string | null>(null)
+  // Ids of existing scenes (or scripts) the user is about to overwrite
+  const [collision, setCollision] = useState<string[] | null>(null)
+  const [batchReport, setBatchReport] = useState<BatchResult[] | null>(null)
+  // Last scene saved from (or opened in) the editor, which the schedule dialog runs.
+  // Home Assistant names the entity after the scene's name when it is first saved, so a
+  // renamed or duplicated scene's entity id differs from its config id.
+  const [savedScene, setSavedScene] = useState<SavedScene | null>(null)
+  const [scheduling, setScheduling] = useState(false)
+  // Day cycle waiting on the answer to a collision prompt
+  const [pendingCycle, setPendingCycle] = useState<{ slots: DayCycleSlot[]; options: ScheduleOptions } | null>(null)
+  // Open import/export dialog, holding the scene to export as it was when opened
+  const [fileDialog, setFileDialog] = useState<{ exportConfig: SceneConfig | null } | null>(null)
+  // Look opened from a share link, waiting to be mapped onto the selected lights
+  const [sharedLook, setSharedLook] = useState<SharedLook | null>(null)
+  const [shareUrl, setShareUrl] = useState<string | null>(null)
+  // Whether a scene or script changed the lights since the room snapshot was taken
+  const [canRevert, setCanRevert] = useState(false)
+  const [includeTunable, setIncludeTunable] = useState(true)
+  const [includeDimmable, setIncludeDimmable] = useState(true)
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfileStore)
+  const [calibrating, setCalibrating] = useState(false)
+  // Dynamic mode saves a looping script instead of a static scene
+  const [dynamic, setDynamic] = useState(false)
+  const [animation, setAnimation] = useState<AnimationSettings>(DEFAULT_ANIMATION)
+  // User-drawn paths per sample, relative to the dot
+  const [paths, setPaths] = useState<Record<string, Point[]>>({})
+  const [playing, setPlaying] = useState(false)
+  // Sample whose path the next drag on the image draws, and the points drawn so far
+  const [drawingPath, setDrawingPath] = useState<string | null>(null)
+  const [draftPath, setDraftPath] = useState<Point[] | null>(null)
+  // Loop script started by the last save, which can be stopped from here
+  const [runningScript, setRunningScript] = useState<string | null>(null)
+  const [layouts, setLayouts] = useState<LayoutStore>(loadLayouts)
+  const [editingLayout, setEditingLayout] = useState(false)
+  // Area whose layout and mapping the spatial controls edit
+  const [layoutArea, setLayoutArea] = useState('')
+  // How far spatial placement may wander from each light's mapped position
+  const [spatialJitter, setSpatialJitter] = useState(DEFAULT_SPATIAL_JITTER)
+  const [colorModeOverrides, setColorModeOverrides] = useState<Record<string, ColorMode>>(
+    () => JSON.parse(localStorage.getItem(profileKey('ha-color-modes')) || '{}')
+  )
+  const [groupModes, setGroupModes] = useState<Record<string, GroupMode>>(
+    () => JSON.parse(localStorage.getItem(profileKey('ha-group-modes')) || '{}')
+  )
 
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const imageDataRef = useRef<ImageData | null>(null)
+  const sourceDataRef = useRef<ImageData | null>(null)
+  const connRef = useRef<HAConnection | null>(null)
+  const knownLightsRef = useRef<Set<string>>(new Set())
+  const draftPathRef = useRef<Point[]>([])
+  // OAuth login, when signed in that way rather than with a long-lived token
+  const authRef = useRef<AuthSession | null>(loadAuthSession())
+  const refreshingRef = useRef<Promise<AuthSession> | null>(null)
+  const tokenRef = useRef(token)
+  tokenRef.current = token
+  // The latest token for long-lived work (the room snapshot, live preview), which must not
+  // start over each time an OAuth token is refreshed
+  const currentToken = useCallback(() => tokenRef.current, [])
+  // Room as it was before the generator first changed it, shared by live preview and Revert
+  const snapshotRef = useRef<Promise<RoomSnapshot> | null>(null)
+
+  const [phase, setPhase] = useTimeline(dynamic && playing, animation.loopSeconds)
+
+  const { lights, areaOf } = useMemo(
+    () => getMultiAreaLights(selectedAreas, registry.entities, registry.devices, states),
+    [selectedAreas, registry, states]
+  )
 
-  const connect = async () => {
-    try {
-      await haFetch('/', token)
-
-      const areaResult = await haFetch('/template', token, {
-        method: 'POST',
-        body: JSON.stringify({ template: '{{ areas() | list | tojson }}' })
-      }, true) as string
-      const areaIds: string[] = JSON.parse(areaResult)
-
-      const areasData: Area[] = []
-      for (const areaId of areaIds) {
-        const name = await haFetch('/template', token, {
-          method: 'POST',
-          body: JSON.stringify({ template: `{{ area_name('${areaId}') }}` })
-        }, true) as string
-        areasData.push({ id: areaId, name })
-      }
+  // Groups resolved to the entities the scene actually sets
+  const sceneLights = useMemo(() => getSceneLights(lights, groupModes), [lights, groupModes])
 
-      setAreas(areasData)
-      setConnected(true)
-      localStorage.setItem('ha-token', token)
-      setStatus({ msg: 'Connected to Home Assistant', type: 'success', key: Date.now() })
-    } catch (e) {
-      setStatus({ msg: `Connection failed: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
-    }
+  // Newly discovered lights (area switch, added in HA or an expanded group) start out selected
+  useEffect(() => {
+    const added = sceneLights.filter(l => !knownLightsRef.current.has(l.entity_id))
+    if (added.length === 0) return
+    added.forEach(l => knownLightsRef.current.add(l.entity_id))
+    setSelectedLights(prev => new Set([...prev, ...added.map(l => l.entity_id)]))
+  }, [sceneLights])
+
+  // White-only light classes can be left out of a scene
+  const activeLights = useMemo(() => sceneLights.filter(l =>
+    l.kind === 'color'
+    || (l.kind === 'color_temp' && includeTunable)
+    || (l.kind === 'brightness' && includeDimmable)
+  ), [sceneLights, includeTunable, includeDimmable])
+
+  // Groups stand for their bulbs, which a revert restores one by one
+  const getBulbIds = (entityIds: string[]) => entityIds.flatMap(id => {
+    const group = lights.find(l => l.entity_id === id && l.members.length > 0)
+    return group ? group.members.map(m => m.entity_id) : [id]
+  })
+
+  const layoutAreaId = selectedAreas.includes(layoutArea) ? layoutArea : selectedAreas[0] ?? ''
+  const areaLayout = layouts[layoutAreaId] ?? EMPTY_LAYOUT
+  // Only separate scenes per area when there is more than one area and the result is a scene
+  const isBatch = sceneScope === 'per-area' && selectedAreas.length > 1 && !dynamic
+
+  const updateAreaLayout = (layout: AreaLayout) => {
+    setLayouts(prev => ({ ...prev, [layoutAreaId]: layout }))
   }
 
-  const loadLights = async (areaId: string) => {
-    if (!areaId) {
-      setLights([])
-      return
+  const updateMapping = (changes: Partial<LayoutMapping>) => {
+    updateAreaLayout({ ...areaLayout, mapping: { ...areaLayout.mapping, ...changes } })
+  }
+
+  // How each light renders its sample; color lights use the override, else their native mode
+  const targets = useMemo(() => Object.fromEntries(activeLights.map((l): [string, LightTarget] => {
+    switch (l.kind) {
+      case 'color':
+        return [l.entity_id, {
+          kind: 'color',
+          colorMode: colorModeOverrides[l.entity_id] ?? getDefaultColorMode(l),
+          profile: resolveProfile(l, profileStore)
+        }]
+      case 'color_temp':
+        return [l.entity_id, { kind: 'color_temp', minKelvin: l.min_kelvin, maxKelvin: l.max_kelvin }]
+      case 'brightness':
+        return [l.entity_id, { kind: 'brightness' }]
     }
+  })), [activeLights, colorModeOverrides, profileStore])
+
+  const sceneSettings = useMemo(
+    () => ({ brightness, brightnessMode, minBrightness, maxBrightness, normalize, targets }),
+    [brightness, brightnessMode, minBrightness, maxBrightness, normalize, targets]
+  )
+
+  // Areas, registries and light states in one round trip over the shared socket
+  const loadRegistry = async (conn: HAConnection) => {
+    const [areaEntries, entities, devices, stateList] = await Promise.all([
+      conn.listAreas(),
+      conn.listEntities(),
+      conn.listDevices(),
+      conn.getStates()
+    ])
+    setAreas(areaEntries
+      .map(a => ({ id: a.area_id, name: a.name }))
+      .sort((a, b) => a.name.localeCompare(b.name)))
+    // The remembered selection may name areas deleted since
+    setSelectedAreas(prev => prev.filter(id => areaEntries.some(a => a.area_id === id)))
+    setRegistry({ entities, devices })
+    setStates(new Map(
+      stateList.filter(s => s.entity_id.startsWith('light.')).map(s => [s.entity_id, s])
+    ))
+  }
+
+  // One refresh at a time, however many requests hit an expired token together
+  const refreshSession = useCallback(async (): Promise<AuthSession> => {
+    const session = authRef.current
+    if (!session) throw new Error('Not logged in')
+    refreshingRef.current ??= refreshAuthSession(session).finally(() => {
+      refreshingRef.current = null
+    })
+    const next = await refreshingRef.current
+    authRef.current = next
+    setToken(next.accessToken)
+    return next
+  }, [])
+
+  // Current access token, refreshed first when an OAuth token is about to expire
+  const getAccessToken = useCallback(async () => {
+    const session = authRef.current
+    if (!session) return tokenRef.current
+    return (isExpiring(session) ? await refreshSession() : session).accessToken
+  }, [refreshSession])
+
+  // REST calls rejected with 401 get a refreshed token and one retry
+  useEffect(() => {
+    setTokenRefresher(async () => {
+      if (!authRef.current) return null
+      try {
+        return (await refreshSession()).accessToken
+      } catch {
+        return null
+      }
+    })
+    return () => setTokenRefresher(null)
+  }, [refreshSession])
+
+  // A rejected login leaves every request failing, so ask for a new one rather
+  // than letting the editor fail action by action
+  useEffect(() => {
+    setAuthFailureHandler(() => setLoginExpired(true))
+    return () => setAuthFailureHandler(null)
+  }, [])
 
+  const connect = async () => {
     try {
-      const result = await haFetch('/template', token, {
-        method: 'POST',
-        body: JSON.stringify({
-          template: `{{ area_entities('${areaId}') | select('match', 'light\\\\.') | list | tojson }}`
+      const conn = await createConnection(getAccessToken)
+      connRef.current?.close()
+      connRef.current = conn
+
+      await loadRegistry(conn)
+
+      // Keep the light list live as states change and entities are added
+      await conn.subscribeEvents<StateChangedData>('state_changed', ({ data }) => {
+        if (!data.entity_id.startsWith('light.')) return
+        setStates(prev => {
+          const next = new Map(prev)
+          if (data.new_state) {
+            next.set(data.entity_id, data.new_state)
+          } else {
+            next.delete(data.entity_id)
+          }
+          return next
+        })
+      })
+      for (const eventType of REGISTRY_EVENTS) {
+        await conn.subscribeEvents(eventType, () => {
+          loadRegistry(conn).catch(() => {})
         })
-      }, true) as string
-      const lightIds: string[] = JSON.parse(result)
+      }
 
-      const states: HAState[] = await haFetch('/states', token)
-      const lightsData = lightIds.map(id => {
-        const state = states.find(s => s.entity_id === id)
-        return {
-          entity_id: id,
-          name: state?.attributes?.friendly_name || id,
-          supports_color: state?.attributes?.supported_color_modes?.some(m =>
-            ['rgb', 'rgbw', 'rgbww', 'hs', 'xy'].includes(m)
-          ) || false,
-          is_hue_group: state?.attributes?.is_hue_group === true
+      conn.onConnectionChange(isConnected => {
+        if (isConnected) {
+          // Anything may have changed while we were offline
+          loadRegistry(conn).catch(() => {})
+          setStatus({ msg: 'Reconnected to Home Assistant', type: 'success', key: Date.now() })
+        } else {
+          setStatus({ msg: 'Lost connection to Home Assistant, reconnecting...', type: 'error', key: Date.now() })
         }
-      }).filter(l => l.supports_color && !l.is_hue_group)
+      })
 
-      setLights(lightsData)
-      setSelectedLights(new Set(lightsData.map(l => l.entity_id)))
+      setConnected(true)
+      if (!authRef.current && !demo) localStorage.setItem(profileKey('ha-token'), token)
+      setStatus({ msg: 'Connected to Home Assistant', type: 'success', key: Date.now() })
     } catch (e) {
-      setStatus({ msg: `Failed to load lights: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+      setStatus({ msg: `Connection failed: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
     }
   }
 
-  const loadImageFromSrc = (src: string) => {
+  // Areas stay in list order; lights of an added area are selected by the effect above
+  const setAreaSelection = (areaIds: string[]) => {
+    const next = areas.map(a => a.id).filter(id => areaIds.includes(id))
+    // Dots of lights that left the selection go with them, and they are selected again if re-added
+    const remaining = getMultiAreaLights(next, registry.entities, registry.devices, states)
+    const removed = [...areaOf.keys()].filter(id => !remaining.areaOf.has(id))
+    removed.forEach(id => knownLightsRef.current.delete(id))
+    setSelectedLights(prev => new Set([...prev].filter(id => !removed.includes(id))))
+    setSamples(prev => prev.filter(s => !removed.includes(s.id)))
+    setSelectedAreas(next)
+    setBatchReport(null)
+    setCollision(null)
+  }
+
+  const toggleArea = (areaId: string) => {
+    setAreaSelection(selectedAreas.includes(areaId)
+      ? selectedAreas.filter(id => id !== areaId)
+      : [...selectedAreas, areaId])
+  }
+
+  // `restore` re-creates sample dots at saved positions once the image is ready;
+  // `exact` puts dots back as they were (undo/redo)
+  const loadImageFromSrc = (src: string, restore?: SampleMetadata[], exact?: SamplePoint[]) => {
     const img = new Image()
     img.crossOrigin = 'anonymous'
     img.onload = () => {
@@ -282,8 +551,29 @@ function App() {
 
       ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
       imageDataRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height)
+
+      // Colors are read from the full-resolution image, not the downscaled preview
+      const sourceScale = Math.min(1, MAX_SOURCE_DIMENSION / Math.max(img.width, img.height))
+      const source = document.createElement('canvas')
+      source.width = Math.round(img.width * sourceScale)
+      source.height = Math.round(img.height * sourceScale)
+      const sourceCtx = source.getContext('2d')
+      sourceCtx?.drawImage(img, 0, 0, source.width, source.height)
+      sourceDataRef.current = sourceCtx?.getImageData(0, 0, source.width, source.height) ?? null
       setImageUrl(src)
-      setSamples([])
+      setSamples(exact ?? (restore ?? []).map(m => {
+        const [r, g, b] = getColorAt(m.x, m.y)
+        return {
+          id: m.entity_id,
+          x: m.x,
+          y: m.y,
+          r,
+          g,
+          b,
+          lightName: states.get(m.entity_id)?.attributes.friendly_name || m.entity_id,
+          brightness: m.brightness
+        }
+      }))
     }
     img.src = src
   }
@@ -301,6 +591,8 @@ function App() {
       loadImageFromSrc(ev.target?.result as string)
     }
     reader.readAsDataURL(file)
+    // Keep the saved name while editing an existing scene
+    if (editingSceneId) return
     // Auto-generate scene name from filename
     const baseName = file.name.replace(/\.[^/.]+$/, '').replace(/[-_]/g, ' ')
     const capitalized = baseName.charAt(0).toUpperCase() + baseName.slice(1)
@@ -312,11 +604,18 @@ function App() {
     loadImageFromSrc(presetFile)
     // Auto-generate scene name from preset
     const preset = PRESETS.find(p => p.file === presetFile)
-    if (preset) {
+    if (preset && !editingSceneId) {
       setSceneName(preset.name)
     }
   }
 
+  // Generated palettes are loaded like an uploaded image, so dots and scenes work unchanged
+  const loadGeneratedPalette = (image: string, name: string) => {
+    setSelectedPreset(null)
+    loadImageFromSrc(image)
+    if (!editingSceneId) setSceneName(name)
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragOver(false)
@@ -336,24 +635,126 @@ function App() {
     setIsDragOver(false)
   }
 
-  const getColorAt = (x: number, y: number): [number, number, number] => {
-    const data = imageDataRef.current
+  const getColorAt = useCallback((
+    x: number,
+    y: number,
+    radius = sampleRadius,
+    mode = regionMode
+  ): [number, number, number] => {
+    const data = sourceDataRef.current ?? imageDataRef.current
     if (!data) return [128, 128, 128]
+    return sampleRegion(data, x, y, radius, mode)
+  }, [sampleRadius, regionMode])
+
+  // What the dots show right now: their own positions, or where the animation has moved them
+  const displaySamples = useMemo(
+    () => dynamic ? getFrameSamples(samples, paths, animation, phase, getColorAt) : samples,
+    [dynamic, samples, paths, animation, phase, getColorAt]
+  )
+
+  // Take the room snapshot unless one is held already, and mark the lights about to change
+  const captureRoom = useCallback((entityIds: string[] = []) => {
+    snapshotRef.current ??= captureLights(currentToken())
+      .then(states => ({ states, touched: new Set<string>() }))
+      .catch(e => {
+        snapshotRef.current = null
+        throw e
+      })
+    return snapshotRef.current.then(snapshot => {
+      entityIds.forEach(id => snapshot.touched.add(id))
+      return snapshot
+    })
+  }, [currentToken])
+
+  // Lights that are back in their snapshot state; once none are left the snapshot is dropped
+  const releaseRoom = useCallback((entityIds: string[]) => {
+    const pending = snapshotRef.current
+    pending?.then(snapshot => {
+      entityIds.forEach(id => snapshot.touched.delete(id))
+      if (snapshot.touched.size > 0 || snapshotRef.current !== pending) return
+      snapshotRef.current = null
+      setCanRevert(false)
+    })
+  }, [])
+
+  const previewSnapshot = useMemo<PreviewSnapshot>(() => ({
+    capture: () => captureRoom().then(snapshot => snapshot.states),
+    release: releaseRoom
+  }), [captureRoom, releaseRoom])
+
+  // Live preview follows the timeline, so playing it shows the animation on the lights
+  const preview = useLivePreview(currentToken, displaySamples, sceneSettings, livePreview, previewSnapshot, e => {
+    setStatus({ msg: `Live preview failed: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+  })
+
+  const editorState = useMemo<EditorState>(() => ({
+    image: imageUrl,
+    preset: selectedPreset,
+    samples,
+    brightness,
+    brightnessMode,
+    minBrightness,
+    maxBrightness
+  }), [imageUrl, selectedPreset, samples, brightness, brightnessMode, minBrightness, maxBrightness])
+
+  // Dots of lights that have left the scene since are not brought back
+  const restoreEditorState = (state: EditorState) => {
+    const sceneIds = new Set(sceneLights.map(l => l.entity_id))
+    const restored = state.samples.filter(s => sceneIds.has(s.id))
+    setBrightness(state.brightness)
+    setBrightnessMode(state.brightnessMode)
+    setMinBrightness(state.minBrightness)
+    setMaxBrightness(state.maxBrightness)
+    setSelectedPreset(state.preset)
+    if (state.image && state.image !== imageUrl) {
+      loadImageFromSrc(state.image, undefined, restored)
+      return
+    }
+    // Undoing the first image goes back to the empty drop zone
+    if (!state.image) {
+      imageDataRef.current = null
+      sourceDataRef.current = null
+      setImageUrl(null)
+    }
+    setSamples(restored)
+  }
 
-    const px = Math.floor(x * data.width)
-    const py = Math.floor(y * data.height)
-    const idx = (py * data.width + px) * 4
-    return [data.data[idx], data.data[idx + 1], data.data[idx + 2]]
+  // A drag is recorded once, when it ends
+  const { undo, redo, canUndo, canRedo } = useHistory(editorState, restoreEditorState, isSameEditorState, dragging !== null)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) undo()
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo()
+      else return
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [undo, redo])
+
+  // Re-read every dot's color when the sampling region changes
+  const updateRegionSampling = (radius: number, mode: RegionMode) => {
+    setSampleRadius(radius)
+    setRegionMode(mode)
+    setSamples(prev => prev.map(s => {
+      const [r, g, b] = getColorAt(s.x, s.y, radius, mode)
+      return { ...s, r, g, b }
+    }))
   }
 
   const randomizeSamples = () => {
-    const selected = lights.filter(l => selectedLights.has(l.entity_id))
+    const selected = activeLights.filter(l => selectedLights.has(l.entity_id))
     if (selected.length === 0 || !imageDataRef.current) {
       setStatus({ msg: 'Select lights and upload an image first', type: 'error', key: Date.now() })
       return
     }
 
-    const positions: { x: number; y: number }[] = []
+    // Locked dots stay as they are, and their spots count as taken
+    const locked = new Map(samples.filter(s => s.locked).map(s => [s.id, s]))
+    const positions: { x: number; y: number }[] = [...locked.values()].map(s => ({ x: s.x, y: s.y }))
 
     const getValidPosition = (): { x: number; y: number } => {
       for (let attempts = 0; attempts < MAX_POSITION_ATTEMPTS; attempts++) {
@@ -367,8 +768,36 @@ function App() {
       return { x: EDGE_PADDING + Math.random() * POSITION_RANGE, y: EDGE_PADDING + Math.random() * POSITION_RANGE }
     }
 
-    const newSamples: SamplePoint[] = selected.map(light => {
-      const pos = getValidPosition()
+    // Smart palette: cycle lights through the dominant clusters, placing each dot
+    // on a representative pixel that isn't crowding an earlier dot
+    const palette = samplingMode === 'palette'
+      ? extractPalette(imageDataRef.current, Math.min(selected.length, paletteSize))
+      : []
+
+    const getPalettePosition = (index: number): { x: number; y: number } => {
+      const { candidates } = palette[index % palette.length]
+      return candidates.find(c =>
+        !positions.some(p => Math.hypot(p.x - c.x, p.y - c.y) < MIN_DOT_DISTANCE)
+      ) || candidates[0]
+    }
+
+    // Spatial: each light's spot on its area's floor plan, mapped onto the image and jittered
+    // around it. Indices come from the area's full light list so unplaced lights match the editor.
+    const getSpatialPosition = (light: Light): { x: number; y: number } => {
+      const areaId = areaOf.get(light.entity_id) ?? ''
+      const layout = layouts[areaId] ?? EMPTY_LAYOUT
+      const areaLights = activeLights.filter(l => areaOf.get(l.entity_id) === areaId)
+      const index = areaLights.findIndex(l => l.entity_id === light.entity_id)
+      const planned = getLayoutPosition(layout, light.entity_id, index, areaLights.length)
+      return jitterPoint(mapToImage(planned, layout.mapping), spatialJitter)
+    }
+
+    const newSamples: SamplePoint[] = selected.map((light, i) => {
+      const kept = locked.get(light.entity_id)
+      if (kept) return kept
+      const pos = samplingMode === 'spatial'
+        ? getSpatialPosition(light)
+        : palette.length > 0 ? getPalettePosition(i) : getValidPosition()
       positions.push(pos)
       const [r, g, b] = getColorAt(pos.x, pos.y)
       return {
@@ -378,55 +807,271 @@ function App() {
         r,
         g,
         b,
-        lightName: light.name
+        lightName: light.name,
+        // Per-light brightness survives rerolling the positions
+        brightness: samples.find(p => p.id === light.entity_id)?.brightness
       }
     })
 
     setSamples(newSamples)
-    setStatus({ msg: `Sampled ${newSamples.length} colors`, type: 'success', key: Date.now() })
+    const rerolled = newSamples.filter(s => !s.locked).length
+    const keptNote = rerolled < newSamples.length ? ` (${newSamples.length - rerolled} locked)` : ''
+    setStatus({
+      msg: (samplingMode === 'spatial'
+        ? `Placed ${rerolled} lights from the room layout`
+        : palette.length > 0
+          ? `Sampled ${rerolled} lights from ${palette.length} palette colors`
+          : `Sampled ${rerolled} colors`) + keptNote,
+      type: 'success',
+      key: Date.now()
+    })
   }
 
-  const handleMouseDown = (sampleId: string) => {
+  const moveSample = (sampleId: string, x: number, y: number) => {
+    const [r, g, b] = getColorAt(x, y)
+    setSamples(prev => prev.map(s =>
+      s.id === sampleId ? { ...s, x, y, r, g, b } : s
+    ))
+  }
+
+  // Pointer capture keeps the drag on the dot when the pointer slips off it,
+  // for mouse, touch and pen alike
+  const handleDotPointerDown = (e: React.PointerEvent<HTMLDivElement>, sampleId: string) => {
+    // While drawing, the drag belongs to the path
+    if (drawingPath) return
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    e.currentTarget.focus()
+    // Dots are edited at their starting positions
+    setPlaying(false)
+    setPhase(0)
     setDragging(sampleId)
   }
 
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!dragging || !containerRef.current) return
+  const handleDotPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging || !containerRef.current || !e.currentTarget.hasPointerCapture(e.pointerId)) return
+    const { x, y } = getRelativePosition(containerRef.current, e.clientX, e.clientY)
+    moveSample(dragging, x, y)
+  }
 
-    const rect = containerRef.current.getBoundingClientRect()
-    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
-    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
-    const [r, g, b] = getColorAt(x, y)
+  // Arrow keys nudge the focused dot (further with Shift); Enter or Space opens its swatch
+  const handleDotKeyDown = (e: React.KeyboardEvent, sampleId: string) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      setEditingSample(prev => prev === sampleId ? null : sampleId)
+      return
+    }
+    const move = NUDGE_KEYS[e.key]
+    const sample = samples.find(s => s.id === sampleId)
+    if (!move || !sample) return
+    e.preventDefault()
+    setPlaying(false)
+    setPhase(0)
+    const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP
+    const clamp = (v: number) => Math.max(0, Math.min(1, v))
+    moveSample(sampleId, clamp(sample.x + move[0] * step), clamp(sample.y + move[1] * step))
+  }
 
-    setSamples(prev => prev.map(s =>
-      s.id === dragging ? { ...s, x, y, r, g, b } : s
-    ))
-  }, [dragging])
+  const startPath = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drawingPath || !containerRef.current) return
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setPlaying(false)
+    setPhase(0)
+    draftPathRef.current = [getRelativePosition(containerRef.current, e.clientX, e.clientY)]
+    setDraftPath(draftPathRef.current)
+  }
 
-  const handleMouseUp = useCallback(() => {
-    setDragging(null)
+  const extendPath = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draftPath || !containerRef.current) return
+    const point = getRelativePosition(containerRef.current, e.clientX, e.clientY)
+    const last = draftPathRef.current[draftPathRef.current.length - 1]
+    if (Math.hypot(point.x - last.x, point.y - last.y) < MIN_PATH_STEP) return
+    draftPathRef.current = [...draftPathRef.current, point]
+    setDraftPath(draftPathRef.current)
+  }
+
+  // The dot moves to where the path starts; the path is kept relative to it
+  const finishPath = () => {
+    if (!draftPath || !drawingPath) return
+    const points = draftPathRef.current
+    if (points.length > 1) {
+      const [start] = points
+      setPaths(prev => ({
+        ...prev,
+        [drawingPath]: points.map(p => ({ x: p.x - start.x, y: p.y - start.y }))
+      }))
+      moveSample(drawingPath, start.x, start.y)
+    }
+    setDraftPath(null)
+    setDrawingPath(null)
+  }
+
+  const clearPath = (sampleId: string) => {
+    setPaths(prev => {
+      const next = { ...prev }
+      delete next[sampleId]
+      return next
+    })
+  }
+
+  // Each dot's full loop, drawn over the image in dynamic mode
+  const pathPreviews = useMemo(() => {
+    if (!dynamic) return []
+    const steps = Array.from({ length: PATH_PREVIEW_STEPS + 1 }, (_, i) => i / PATH_PREVIEW_STEPS)
+    return samples.map((s, i) => ({
+      id: s.id,
+      color: `rgb(${s.r},${s.g},${s.b})`,
+      points: toSvgPoints(steps.map(t => getPathPosition(s, i, t, animation, paths[s.id])))
+    }))
+  }, [dynamic, samples, paths, animation])
+
+  const updateAnimation = (changes: Partial<AnimationSettings>) => {
+    setAnimation(prev => ({ ...prev, ...changes }))
+  }
+
+  const setDynamicMode = (enabled: boolean) => {
+    setDynamic(enabled)
+    setPlaying(false)
+    setPhase(0)
+    setDrawingPath(null)
+    setCollision(null)
+  }
+
+  // Ends the OAuth login on the HA side too; a long-lived token is just forgotten
+  const logout = async () => {
+    const session = authRef.current
+    authRef.current = null
+    connRef.current?.close()
+    connRef.current = null
+    localStorage.removeItem(profileKey('ha-token'))
+    setToken('')
+    setConnected(false)
+    try {
+      if (session) await revokeAuthSession(session)
+      setStatus({ msg: 'Logged out', type: 'success', key: Date.now() })
+    } catch (e) {
+      setStatus({ msg: `Logged out, but revoking the login failed: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+  }
+
+  // Drop the rejected credentials. An OAuth login goes straight back to HA's login
+  // page; with a long-lived token the login form asks for a new one.
+  const relogin = () => {
+    const session = authRef.current
+    authRef.current = null
+    connRef.current?.close()
+    connRef.current = null
+    clearAuthSession()
+    localStorage.removeItem(profileKey('ha-token'))
+    setLoginExpired(false)
+    setToken('')
+    setConnected(false)
+    if (session) {
+      startLogin(session.haUrl)
+    } else {
+      setStatus({ msg: 'Enter a new access token to reconnect', type: 'error', key: Date.now() })
+    }
+  }
+
+  const enterDemo = () => {
+    startDemo()
+    setToken(DEMO_TOKEN)
+    setDemo(true)
+  }
+
+  // Back to the login form, with whatever real token and settings were saved. They're
+  // set in the same batch as leaving, so the save effects never see the demo's.
+  const leaveDemo = () => {
+    connRef.current?.close()
+    connRef.current = null
+    stopDemo()
+    setDemo(false)
+    setConnected(false)
+    setToken(localStorage.getItem(profileKey('ha-token')) ?? '')
+    setSelectedAreas(JSON.parse(localStorage.getItem(profileKey('ha-areas')) || '[]'))
+    setColorModeOverrides(JSON.parse(localStorage.getItem(profileKey('ha-color-modes')) || '{}'))
+    setGroupModes(JSON.parse(localStorage.getItem(profileKey('ha-group-modes')) || '{}'))
+    setProfileStore(loadProfileStore())
+    setLayouts(loadLayouts())
+  }
+
+  // Connect once the demo token is in place
+  useEffect(() => {
+    if (demo) connect()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demo])
+
+  // Finish an OAuth login the page was opened for, then auto-connect with whatever
+  // credentials there are (run once on mount)
+  useEffect(() => {
+    completeLogin()
+      .then(session => {
+        if (session) {
+          authRef.current = session
+          setToken(session.accessToken)
+        }
+        if (authRef.current || localStorage.getItem(profileKey('ha-token'))) connect()
+      })
+      .catch(e => setStatus({ msg: `Login failed: ${getErrorMessage(e)}`, type: 'error', key: Date.now() }))
+    return () => connRef.current?.close()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
+  // Pick up share links, on load or pasted into an open tab. The fragment is cleared
+  // so a reload doesn't offer the same look again.
   useEffect(() => {
-    if (dragging) {
-      window.addEventListener('mousemove', handleMouseMove)
-      window.addEventListener('mouseup', handleMouseUp)
-      return () => {
-        window.removeEventListener('mousemove', handleMouseMove)
-        window.removeEventListener('mouseup', handleMouseUp)
+    const readHash = () => {
+      try {
+        const look = readSharedLook(window.location.hash)
+        if (!look) return
+        setSharedLook(look)
+        setView('editor')
+      } catch (e) {
+        setStatus({ msg: getErrorMessage(e), type: 'error', key: Date.now() })
       }
+      history.replaceState(null, '', window.location.pathname + window.location.search)
     }
-  }, [dragging, handleMouseMove, handleMouseUp])
+    readHash()
+    window.addEventListener('hashchange', readHash)
+    return () => window.removeEventListener('hashchange', readHash)
+  }, [])
 
-  // Auto-connect if token exists (run once on mount)
+  // Offer the active instance's login page when this profile hasn't logged in before
   useEffect(() => {
-    const savedToken = localStorage.getItem('ha-token')
-    if (savedToken) {
-      connect()
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    fetchInstances().then(list => {
+      setInstances(list)
+      const instance = list.find(i => i.id === getActiveConnection().instance) ?? list[0]
+      if (instance) setHaUrl(url => url || instance.loginUrl)
+    })
   }, [])
 
+  // The demo's choices are thrown away with it; leaveDemo loads the real ones back
+  useEffect(() => {
+    if (demo) return
+    localStorage.setItem(profileKey('ha-areas'), JSON.stringify(selectedAreas))
+  }, [selectedAreas, demo])
+
+  useEffect(() => {
+    if (demo) return
+    localStorage.setItem(profileKey('ha-color-modes'), JSON.stringify(colorModeOverrides))
+  }, [colorModeOverrides, demo])
+
+  useEffect(() => {
+    if (demo) return
+    localStorage.setItem(profileKey('ha-group-modes'), JSON.stringify(groupModes))
+  }, [groupModes, demo])
+
+  useEffect(() => {
+    if (demo) return
+    saveProfileStore(profileStore)
+  }, [profileStore, demo])
+
+  useEffect(() => {
+    if (demo) return
+    saveLayouts(layouts)
+  }, [layouts, demo])
+
   // Auto-dismiss status
   useEffect(() => {
     if (status) {
@@ -435,6 +1080,59 @@ function App() {
     }
   }, [status])
 
+  // Picking the native mode again drops the override
+  const setColorMode = (light: Light, mode: ColorMode) => {
+    setColorModeOverrides(prev => {
+      const next = { ...prev }
+      if (mode === getDefaultColorMode(light)) {
+        delete next[light.entity_id]
+      } else {
+        next[light.entity_id] = mode
+      }
+      return next
+    })
+  }
+
+  // Switching a group drops the dots of whichever side (group or bulbs) stops being addressed
+  const setGroupMode = (group: Light, mode: GroupMode) => {
+    setGroupModes(prev => ({ ...prev, [group.entity_id]: mode }))
+    const affected = new Set([group.entity_id, ...group.members.map(m => m.entity_id)])
+    const next = new Set(getSceneLights(lights, { ...groupModes, [group.entity_id]: mode }).map(l => l.entity_id))
+    setSamples(prev => prev.filter(s => !affected.has(s.id) || next.has(s.id)))
+  }
+
+  const editingSampleData = samples.find(s => s.id === editingSample)
+
+  // Effective brightness a sample is sent with, as a percentage
+  const getBrightnessPercent = (sample: SamplePoint) => {
+    return Math.round(getSampleBrightness(sample, sceneSettings) / 255 * 100)
+  }
+
+  // Flash the swatch's dot on the image and open its editor
+  const selectSwatch = (sampleId: string) => {
+    setHighlighted(sampleId)
+    setTimeout(() => setHighlighted(null), HIGHLIGHT_DURATION_MS)
+    setEditingSample(prev => prev === sampleId ? null : sampleId)
+  }
+
+  const toggleSampleLock = (sampleId: string) => {
+    setSamples(prev => prev.map(s => s.id === sampleId ? { ...s, locked: !s.locked } : s))
+  }
+
+  const setSampleBrightness = (sampleId: string, value: number) => {
+    setSamples(prev => prev.map(s => s.id === sampleId ? { ...s, brightness: value } : s))
+  }
+
+  // Excluding a class also drops its lights' dots from the current samples
+  const setLightClassIncluded = (kind: 'color_temp' | 'brightness', included: boolean) => {
+    if (kind === 'color_temp') setIncludeTunable(included)
+    else setIncludeDimmable(included)
+    if (!included) {
+      const excluded = new Set(sceneLights.filter(l => l.kind === kind).map(l => l.entity_id))
+      setSamples(prev => prev.filter(s => !excluded.has(s.id)))
+    }
+  }
+
   const toggleLight = (entityId: string) => {
     setSelectedLights(prev => {
       const next = new Set(prev)
@@ -447,243 +1145,1380 @@ function App() {
     })
   }
 
-  const createScene = async () => {
-    const sceneId = sceneName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/_+$/, '')
+  const refreshScenes = async () => {
+    const conn = connRef.current
+    if (!conn) return
+    setStoredScenes(null)
+    try {
+      setStoredScenes(await listGeneratorScenes(await conn.getStates(), token))
+    } catch (e) {
+      setStoredScenes([])
+      setStatus({ msg: `Failed to load scenes: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+  }
+
+  const showScenes = () => {
+    setView('scenes')
+    refreshScenes()
+  }
 
-    interface SceneEntity {
-      state: string
-      rgb_color: [number, number, number]
-      brightness: number
+  // Restore the editor to the state a generated scene was saved with. With `remapTo`,
+  // the dots move onto those lights in order and the area and light selection stay as they are.
+  const applyGeneratorState = (name: string, meta: GeneratorMetadata, remapTo?: Light[]) => {
+    setSceneName(name)
+    setBrightness(meta.brightness)
+    setBrightnessMode(meta.brightnessMode ?? 'manual')
+    setMinBrightness(meta.minBrightness ?? DEFAULT_MIN_BRIGHTNESS)
+    setMaxBrightness(meta.maxBrightness ?? 255)
+    setNormalize(meta.normalize)
+    setIncludeTunable(meta.includeTunable ?? true)
+    setIncludeDimmable(meta.includeDimmable ?? true)
+
+    if (remapTo) {
+      const remapped = meta.samples
+        .slice(0, remapTo.length)
+        .map((m, i) => ({ ...m, entity_id: remapTo[i].entity_id }))
+      setSelectedPreset(PRESETS.some(p => p.file === meta.image) ? meta.image : null)
+      loadImageFromSrc(meta.image, remapped)
+      setView('editor')
+      return
+    }
+
+    const restoredGroupModes = { ...groupModes, ...meta.groupModes }
+    setGroupModes(restoredGroupModes)
+
+    // Scenes saved before multi-area support only record `area`
+    const sceneAreas = meta.areas ?? (meta.area ? [meta.area] : [])
+    setSelectedAreas(sceneAreas)
+    setBatchReport(null)
+    const areaLights = getMultiAreaLights(sceneAreas, registry.entities, registry.devices, states).lights
+    knownLightsRef.current = new Set(getSceneLights(areaLights, restoredGroupModes).map(l => l.entity_id))
+    setSelectedLights(new Set(meta.samples.map(m => m.entity_id)))
+
+    setSelectedPreset(PRESETS.some(p => p.file === meta.image) ? meta.image : null)
+    loadImageFromSrc(meta.image, meta.samples)
+    setView('editor')
+  }
+
+  const openScene = (scene: StoredScene) => {
+    setEditingSceneId(scene.config.id)
+    setSavedScene({ id: scene.config.id, name: scene.config.name, entityId: scene.entity_id })
+    applyGeneratorState(scene.config.name, scene.generator)
+  }
+
+  const openFileDialog = () => {
+    setFileDialog({
+      exportConfig: samples.length > 0
+        ? buildSceneConfig(editingSceneId ?? toSceneId(sceneName), sceneName, samples, selectedAreas)
+        : null
+    })
+  }
+
+  // Copy a link to the current look: image or palette, dot positions and brightness
+  // settings, but none of this instance's entity ids
+  const shareLook = async () => {
+    const url = toShareUrl(createSharedLook(sceneName, selectedPreset, samples, {
+      brightness,
+      brightnessMode,
+      minBrightness,
+      maxBrightness,
+      normalize
+    }))
+    setShareUrl(url)
+    try {
+      await navigator.clipboard.writeText(url)
+      setStatus({ msg: 'Share link copied', type: 'success', key: Date.now() })
+    } catch {
+      // Clipboard access needs a secure context; the link is shown for manual copying
+      setStatus({ msg: 'Copy the share link below', type: 'success', key: Date.now() })
+    }
+  }
+
+  const applySharedLook = () => {
+    if (!sharedLook) return
+    const targetLights = activeLights.filter(l => selectedLights.has(l.entity_id))
+    if (targetLights.length === 0) {
+      setStatus({ msg: 'Select the lights to apply the shared look to first', type: 'error', key: Date.now() })
+      return
+    }
+    setEditingSceneId(null)
+    setSavedScene(null)
+    applyGeneratorState(sharedLook.name, getLookMetadata(sharedLook), targetLights)
+    setSharedLook(null)
+    setStatus({
+      msg: `Applied "${sharedLook.name}" to ${Math.min(sharedLook.dots.length, targetLights.length)} lights`,
+      type: 'success',
+      key: Date.now()
+    })
+  }
+
+  // Imports always start a new scene, even when one with the same id exists
+  const importScene = (config: SceneConfig, target: ImportTarget) => {
+    const meta = getImportMetadata(config)
+    setEditingSceneId(null)
+    setSavedScene(null)
+    setFileDialog(null)
+
+    if (target === 'current') {
+      const targetLights = activeLights.filter(l => selectedLights.has(l.entity_id))
+      if (targetLights.length === 0) {
+        setStatus({ msg: 'Select the lights to apply the scene to first', type: 'error', key: Date.now() })
+        return
+      }
+      applyGeneratorState(config.name, meta, targetLights)
+      const dropped = meta.samples.length - targetLights.length
+      setStatus({
+        msg: `Imported "${config.name}" onto ${Math.min(meta.samples.length, targetLights.length)} lights`
+          + (dropped > 0 ? ` (${dropped} colors left over)` : ''),
+        type: 'success',
+        key: Date.now()
+      })
+      return
     }
 
+    // Scenes from elsewhere carry no areas; take them from where their lights are
+    const sceneAreas = meta.areas ?? (meta.area ? [meta.area] : [...new Set(meta.samples
+      .map(m => getEntityArea(m.entity_id, registry.entities, registry.devices))
+      .filter((a): a is string => a !== null))])
+    applyGeneratorState(config.name, { ...meta, areas: sceneAreas })
+    setStatus({ msg: `Imported "${config.name}"`, type: 'success', key: Date.now() })
+  }
+
+  const startNewScene = () => {
+    setEditingSceneId(null)
+    setSavedScene(null)
+    setSceneName('Image Scene')
+  }
+
+  // Run a library action, then reload the list so it reflects the change
+  const runLibraryAction = async (action: () => Promise<unknown>, successMsg: string) => {
     try {
-      const entities: Record<string, SceneEntity> = {}
-      for (const s of samples) {
-        const [nr, ng, nb] = normalizeColor(s.r, s.g, s.b)
-        entities[s.id] = {
-          state: 'on',
-          rgb_color: [nr, ng, nb],
-          brightness
+      await action()
+      setStatus({ msg: successMsg, type: 'success', key: Date.now() })
+    } catch (e) {
+      setStatus({ msg: `Scene action failed: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+    refreshScenes()
+  }
+
+  const activateStoredScene = (scene: StoredScene) => {
+    runLibraryAction(
+      () => callService('scene', 'turn_on', { entity_id: scene.entity_id }, token),
+      `Activated "${scene.config.name}"`
+    )
+  }
+
+  const renameStoredScene = (scene: StoredScene, name: string) => {
+    runLibraryAction(() => renameScene(scene, name, token), `Renamed to "${name}"`)
+  }
+
+  const duplicateStoredScene = (scene: StoredScene) => {
+    runLibraryAction(() => duplicateScene(scene, token), `Duplicated "${scene.config.name}"`)
+  }
+
+  const deleteStoredScene = (scene: StoredScene) => {
+    if (editingSceneId === scene.config.id) startNewScene()
+    runLibraryAction(() => deleteSceneConfig(scene.config.id, token), `Deleted "${scene.config.name}"`)
+  }
+
+  const getAreaName = (areaId: string) => areas.find(a => a.id === areaId)?.name ?? areaId
+
+  // Per-area batch: one scene per selected area, named "Name – Area", holding that area's dots
+  const getBatchPlans = () => selectedAreas.map(areaId => {
+    const areaName = getAreaName(areaId)
+    const name = `${sceneName} – ${areaName}`
+    return {
+      areaId,
+      areaName,
+      name,
+      sceneId: toSceneId(name),
+      samples: samples.filter(s => areaOf.get(s.id) === areaId)
+    }
+  })
+
+  // Saving under an id that already exists asks before overwriting it.
+  // Dynamic scenes are always saved as new scripts, even while editing a scene.
+  const createScene = async () => {
+    // A day cycle still waiting on the collision prompt is dropped
+    setPendingCycle(null)
+    if (isBatch) {
+      try {
+        const plans = getBatchPlans()
+        const exists = await Promise.all(plans.map(p => sceneExists(p.sceneId, token)))
+        const taken = plans.filter((_, i) => exists[i]).map(p => p.sceneId)
+        if (taken.length > 0) {
+          setCollision(taken)
+          return
         }
+      } catch (e) {
+        setStatus({ msg: `Failed to create scenes: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+        return
       }
+      await saveBatch(false)
+      return
+    }
 
-      // Create persistent scene via config API (has unique ID, manageable in UI)
-      await haFetch(`/config/scene/config/${sceneId}`, token, {
-        method: 'POST',
-        body: JSON.stringify({
-          id: sceneId,
-          name: sceneName,
-          entities
-        })
-      })
+    const editing = !dynamic && editingSceneId
+    const sceneId = editing || toSceneId(sceneName)
+    if (!editing) {
+      try {
+        if (await (dynamic ? scriptExists : sceneExists)(sceneId, token)) {
+          setCollision([sceneId])
+          return
+        }
+      } catch (e) {
+        setStatus({ msg: `Failed to create scene: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+        return
+      }
+    }
+    await (dynamic ? saveAnimation : saveScene)(sceneId, sceneName)
+  }
+
+  const resolveCollision = async (choice: 'overwrite' | 'suffix' | 'cancel') => {
+    const taken = collision
+    const cycle = pendingCycle
+    setCollision(null)
+    setPendingCycle(null)
+    if (!taken || choice === 'cancel') return
 
-      // Assign scene to selected area via WebSocket API
-      if (selectedArea) {
-        await assignEntityArea(`scene.${sceneId}`, selectedArea, token)
+    if (cycle) {
+      await saveDayCycle(cycle.slots, cycle.options, choice === 'suffix')
+      return
+    }
+
+    if (isBatch) {
+      await saveBatch(choice === 'suffix')
+      return
+    }
+
+    const [sceneId] = taken
+    const save = dynamic ? saveAnimation : saveScene
+    if (choice === 'overwrite') {
+      await save(sceneId, sceneName)
+      return
+    }
+    try {
+      const freeId = await (dynamic ? findFreeScriptId : findFreeSceneId)(sceneId, token)
+      const suffixedName = `${sceneName} ${freeId.slice(sceneId.length + 1)}`
+      setSceneName(suffixedName)
+      await save(freeId, suffixedName)
+    } catch (e) {
+      setStatus({ msg: `Failed to create scene: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+  }
+
+  // Scene config for the given dots: light states plus the generator state to reopen it with
+  const buildSceneConfig = (sceneId: string, name: string, sceneSamples: SamplePoint[], areaIds: string[]): SceneConfig => {
+    const entities: Record<string, SceneEntityState> = {}
+    for (const s of sceneSamples) {
+      entities[s.id] = buildEntityState(s, sceneSettings)
+    }
+
+    const metadata = createMetadata({
+      image: selectedPreset ?? (canvasRef.current ? encodeSceneImage(canvasRef.current) : ''),
+      area: areaIds[0] ?? '',
+      areas: areaIds,
+      brightness,
+      brightnessMode,
+      minBrightness,
+      maxBrightness,
+      normalize,
+      includeTunable,
+      includeDimmable,
+      groupModes: Object.fromEntries(lights
+        .filter(l => l.members.length > 0)
+        .map(g => [g.entity_id, getGroupMode(g, groupModes)])),
+      samples: sceneSamples.map(s => ({
+        entity_id: s.id,
+        x: s.x,
+        y: s.y,
+        color: [s.r, s.g, s.b],
+        brightness: s.brightness
+      }))
+    })
+
+    return {
+      id: sceneId,
+      name,
+      entities,
+      metadata: { [METADATA_KEY]: metadata }
+    }
+  }
+
+  // Save and (unless told not to) activate a scene for the given dots. It is assigned to an
+  // area only when it covers exactly one, since an entity can only belong to a single area.
+  // Only saving has to succeed; the scene exists even when the later steps fail. Returns
+  // the entity Home Assistant shows it as, and what went wrong with the later steps.
+  const writeScene = async (
+    sceneId: string,
+    name: string,
+    sceneSamples: SamplePoint[],
+    areaIds: string[],
+    activate = true
+  ) => {
+    // Create persistent scene via config API (has unique ID, manageable in UI)
+    await saveSceneConfig(buildSceneConfig(sceneId, name, sceneSamples, areaIds), token)
+    let entityId: string
+    try {
+      entityId = await findSceneEntityId(sceneId, token)
+    } catch (e) {
+      // Nothing to assign or activate; reported under the id it most likely has
+      return { entityId: `scene.${sceneId}`, problems: [`finding its entity failed: ${getErrorMessage(e)}`] }
+    }
+    const problems: string[] = []
+
+    // Assign scene to its area via WebSocket API
+    if (areaIds.length === 1) {
+      try {
+        await connRef.current?.updateEntity(entityId, { area_id: areaIds[0] })
+      } catch (e) {
+        problems.push(`assigning it to ${getAreaName(areaIds[0])} failed: ${getErrorMessage(e)}`)
       }
+    }
 
-      // Activate the scene
-      await haFetch('/services/scene/turn_on', token, {
-        method: 'POST',
-        body: JSON.stringify({
-          entity_id: `scene.${sceneId}`
-        })
-      })
+    if (!activate) return { entityId, problems }
+
+    // Activate the scene, keeping how the room looked for Revert
+    try {
+      await captureRoom(getBulbIds(sceneSamples.map(s => s.id)))
+      await callService('scene', 'turn_on', { entity_id: entityId }, token)
+      setCanRevert(true)
+
+      // The scene now owns the lights, so ending preview must not restore them
+      if (livePreview) {
+        preview.commit()
+        setLivePreview(false)
+      }
+    } catch (e) {
+      problems.push(`activating it failed: ${getErrorMessage(e)}`)
+    }
+    return { entityId, problems }
+  }
 
-      setStatus({ msg: `Scene "${sceneName}" created and activated! (scene.${sceneId})`, type: 'success', key: Date.now() })
+  const saveScene = async (sceneId: string, name: string) => {
+    try {
+      const { entityId, problems } = await writeScene(sceneId, name, samples, selectedAreas)
+      setSavedScene({ id: sceneId, name, entityId })
+      setStatus(problems.length === 0
+        ? {
+          msg: `Scene "${name}" ${editingSceneId ? 'updated' : 'created'} and activated! (${entityId})`,
+          type: 'success',
+          key: Date.now()
+        }
+        : { msg: `Scene "${name}" saved as ${entityId}, but ${problems.join('; ')}`, type: 'warning', key: Date.now() })
     } catch (e) {
       setStatus({ msg: `Failed to create scene: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
     }
   }
 
+  // One scene per area; a failing area doesn't stop the others, and all outcomes are reported.
+  // `suffixExisting` saves under base_2, base_3, ... instead of overwriting.
+  const saveBatch = async (suffixExisting: boolean) => {
+    const results: BatchResult[] = []
+    for (const plan of getBatchPlans()) {
+      if (plan.samples.length === 0) {
+        results.push({ label: plan.areaName, ok: false, detail: 'No sampled lights in this area' })
+        continue
+      }
+      try {
+        let { sceneId, name } = plan
+        if (suffixExisting && await sceneExists(sceneId, token)) {
+          const freeId = await findFreeSceneId(sceneId, token)
+          name = `${name} ${freeId.slice(sceneId.length + 1)}`
+          sceneId = freeId
+        }
+        const { entityId, problems } = await writeScene(sceneId, name, plan.samples, [plan.areaId])
+        results.push(problems.length === 0
+          ? { label: plan.areaName, ok: true, detail: entityId }
+          : { label: plan.areaName, ok: true, partial: true, detail: `${entityId} saved, but ${problems.join('; ')}` })
+      } catch (e) {
+        results.push({ label: plan.areaName, ok: false, detail: getErrorMessage(e) })
+      }
+    }
+
+    reportBatch(results)
+  }
+
+  const reportBatch = (results: BatchResult[]) => {
+    setBatchReport(results)
+    const failed = results.filter(r => !r.ok).length
+    const partial = results.filter(r => r.partial).length
+    setStatus({
+      msg: failed > 0
+        ? `${failed} of ${results.length} scenes failed`
+        : partial > 0
+          ? `Created ${results.length} scenes, ${partial} with problems`
+          : `Created ${results.length} scenes`,
+      type: failed > 0 ? 'error' : partial > 0 ? 'warning' : 'success',
+      key: Date.now()
+    })
+  }
+
+  // Run the saved scene on a schedule. An automation the scene already has is kept
+  // and a second one added, since it may have been edited in Home Assistant since.
+  const scheduleScene = async (trigger: ScheduleTrigger, options: ScheduleOptions) => {
+    if (!savedScene) return
+    try {
+      const baseId = toScheduleId(savedScene.id)
+      const automationId = await automationExists(baseId, token) ? await findFreeAutomationId(baseId, token) : baseId
+      const config = buildSceneAutomation(automationId, savedScene.name, savedScene.entityId, trigger, options)
+      await saveAutomationConfig(config, token)
+      setStatus({ msg: `Automation "${config.alias}" saved`, type: 'success', key: Date.now() })
+    } catch (e) {
+      setStatus({ msg: `Failed to save schedule: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+    setScheduling(false)
+  }
+
+  const getCycleSceneId = (slot: DayCycleSlot) => `${toSceneId(sceneName)}_${slot.key}`
+
+  // Scenes or automations of the day cycle that exist already are asked about first,
+  // like any other scene about to be overwritten
+  const scheduleDayCycle = async (slots: DayCycleSlot[], options: ScheduleOptions) => {
+    setScheduling(false)
+    try {
+      const checks = await Promise.all(slots.map(async slot => {
+        const sceneId = getCycleSceneId(slot)
+        const automationId = toScheduleId(sceneId)
+        return [
+          ...await sceneExists(sceneId, token) ? [`scene.${sceneId}`] : [],
+          ...await automationExists(automationId, token) ? [`automation ${automationId}`] : []
+        ]
+      }))
+      const taken = checks.flat()
+      if (taken.length > 0) {
+        setPendingCycle({ slots, options })
+        setCollision(taken)
+        return
+      }
+    } catch (e) {
+      setStatus({ msg: `Failed to save day cycle: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+      return
+    }
+    await saveDayCycle(slots, options, false)
+  }
+
+  // One scene per time of day, colored from its band of the image, each run by its own
+  // automation. None is activated now. `suffixExisting` saves scenes and automations that
+  // exist already under base_2, base_3, ... instead of overwriting them.
+  const saveDayCycle = async (slots: DayCycleSlot[], options: ScheduleOptions, suffixExisting: boolean) => {
+    const results: BatchResult[] = []
+    for (const slot of slots) {
+      let sceneId = getCycleSceneId(slot)
+      let name = `${sceneName} – ${slot.label}`
+      try {
+        if (suffixExisting && await sceneExists(sceneId, token)) {
+          const freeId = await findFreeSceneId(sceneId, token)
+          name = `${name} ${freeId.slice(sceneId.length + 1)}`
+          sceneId = freeId
+        }
+        const slotSamples = getBandSamples(samples, slot.band, getColorAt)
+        const { entityId, problems } = await writeScene(sceneId, name, slotSamples, selectedAreas, false)
+        try {
+          let automationId = toScheduleId(sceneId)
+          if (suffixExisting && await automationExists(automationId, token)) {
+            automationId = await findFreeAutomationId(automationId, token)
+          }
+          await saveAutomationConfig(buildSceneAutomation(automationId, name, entityId, slot.trigger, options), token)
+        } catch (e) {
+          problems.push(`scheduling it failed: ${getErrorMessage(e)}`)
+        }
+        const detail = `${entityId} ${describeTrigger(slot.trigger)}`
+        results.push(problems.length === 0
+          ? { label: slot.label, ok: true, detail }
+          : { label: slot.label, ok: true, partial: true, detail: `${entityId} saved, but ${problems.join('; ')}` })
+      } catch (e) {
+        results.push({ label: slot.label, ok: false, detail: getErrorMessage(e) })
+      }
+    }
+    reportBatch(results)
+  }
+
+  // One light state per entity at each keyframe of the loop
+  const buildKeyframes = (): Keyframe[] => getKeyframeTimes(animation).map(t => {
+    const frame: Keyframe = {}
+    for (const s of getFrameSamples(samples, paths, animation, t, getColorAt)) {
+      frame[s.id] = buildEntityState(s, sceneSettings)
+    }
+    return frame
+  })
+
+  // Save the animation as a looping script plus a companion stop script, then start it
+  const saveAnimation = async (scriptId: string, name: string) => {
+    try {
+      const stepSeconds = animation.loopSeconds / animation.keyframes
+      const stopId = toStopScriptId(scriptId)
+      await saveScriptConfig(scriptId, buildLoopScript(name, buildKeyframes(), stepSeconds), token)
+      await saveScriptConfig(stopId, buildStopScript(name, scriptId), token)
+      // Both scripts exist from here on, whatever happens next
+      const problems: string[] = []
+
+      if (selectedAreas.length === 1) {
+        try {
+          await connRef.current?.updateEntity(`script.${scriptId}`, { area_id: selectedAreas[0] })
+          await connRef.current?.updateEntity(`script.${stopId}`, { area_id: selectedAreas[0] })
+        } catch (e) {
+          problems.push(`assigning them to ${getAreaName(selectedAreas[0])} failed: ${getErrorMessage(e)}`)
+        }
+      }
+
+      try {
+        await captureRoom(getBulbIds(samples.map(s => s.id)))
+        await callService('script', 'turn_on', { entity_id: `script.${scriptId}` }, token)
+        setRunningScript(scriptId)
+        setCanRevert(true)
+        setPlaying(false)
+
+        // The script now owns the lights, so ending preview must not restore them
+        if (livePreview) {
+          preview.commit()
+          setLivePreview(false)
+        }
+      } catch (e) {
+        problems.push(`starting it failed: ${getErrorMessage(e)}`)
+      }
+
+      setStatus(problems.length === 0
+        ? {
+          msg: `Animation "${name}" saved and started (script.${scriptId}, stop with script.${stopId})`,
+          type: 'success',
+          key: Date.now()
+        }
+        : { msg: `Animation "${name}" saved as script.${scriptId}, but ${problems.join('; ')}`, type: 'warning', key: Date.now() })
+    } catch (e) {
+      setStatus({ msg: `Failed to save animation: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+  }
+
+  // Put the lights changed since the snapshot back, stopping the animation that drives them first
+  const revertRoom = async () => {
+    const pending = snapshotRef.current
+    if (!pending) return
+    try {
+      const snapshot = await pending
+      if (runningScript) {
+        await callService('script', 'turn_off', { entity_id: `script.${runningScript}` }, token)
+        setRunningScript(null)
+      }
+      await restoreLights(snapshot.states, snapshot.touched, token)
+      snapshotRef.current = null
+      setCanRevert(false)
+      setStatus({ msg: 'Lights reverted', type: 'success', key: Date.now() })
+    } catch (e) {
+      setStatus({ msg: `Failed to revert lights: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+  }
+
+  // Keep the lights as they are and forget the snapshot
+  const keepRoom = () => {
+    snapshotRef.current = null
+    setCanRevert(false)
+  }
+
+  const stopAnimation = async () => {
+    if (!runningScript) return
+    try {
+      await callService('script', 'turn_off', { entity_id: `script.${runningScript}` }, token)
+      setRunningScript(null)
+      setStatus({ msg: 'Animation stopped', type: 'success', key: Date.now() })
+    } catch (e) {
+      setStatus({ msg: `Failed to stop animation: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+    }
+  }
+
   return (
     <div className="app">
       <header className="header">
         <h1>HA Scene Generator</h1>
         <p className="subtitle">Create light scenes from image colors</p>
+        {connected && (
+          <div className="view-tabs">
+            <button
+              className={`preset-btn ${view === 'editor' ? 'active' : ''}`}
+              onClick={() => setView('editor')}
+            >
+              Editor
+            </button>
+            <button
+              className={`preset-btn ${view === 'scenes' ? 'active' : ''}`}
+              onClick={showScenes}
+            >
+              Scenes
+            </button>
+            {!demo && <ConnectionPicker instances={instances} />}
+            <button className="link-btn" onClick={demo ? leaveDemo : logout}>
+              {demo ? 'Leave demo' : 'Log out'}
+            </button>
+          </div>
+        )}
       </header>
 
       {!connected ? (
         <div className="connect-section">
-          <label>Long-Lived Access Token</label>
+          <ConnectionPicker instances={instances} manage />
+          <label>Home Assistant URL</label>
           <input
-            type="password"
-            value={token}
-            onChange={e => setToken(e.target.value)}
-            placeholder="Your HA access token"
+            type="url"
+            value={haUrl}
+            onChange={e => setHaUrl(e.target.value)}
+            placeholder="http://homeassistant.local:8123"
           />
-          <button onClick={connect}>Connect</button>
+          <button onClick={() => startLogin(haUrl)} disabled={!haUrl.trim()}>Log in with Home Assistant</button>
+
+          <details className="token-login">
+            <summary>Use a long-lived access token instead</summary>
+            <label>Long-Lived Access Token</label>
+            <input
+              type="password"
+              value={token}
+              onChange={e => setToken(e.target.value)}
+              placeholder="Your HA access token"
+            />
+            <button onClick={connect}>Connect</button>
+          </details>
+
+          <button className="link-btn demo-btn" onClick={enterDemo}>
+            No Home Assistant at hand? Try the demo
+          </button>
         </div>
       ) : (
-        <div className="main-grid">
-          {/* Left Column - Controls */}
-          <div className="left-column">
-            <div className="section">
-              <label>Select Area</label>
-              <select
-                value={selectedArea}
-                onChange={e => {
-                  setSelectedArea(e.target.value)
-                  loadLights(e.target.value)
-                }}
-              >
-                <option value="">-- Select an area --</option>
-                {areas.map(a => (
-                  <option key={a.id} value={a.id}>{a.name}</option>
-                ))}
-              </select>
-            </div>
-
-            {lights.length > 0 && (
+        <>
+          {demo && (
+            <SimulatedLights
+              areas={areas}
+              states={states}
+              entities={registry.entities}
+              devices={registry.devices}
+            />
+          )}
+
+          {view === 'scenes' && (
+            <ScenesView
+              scenes={storedScenes}
+              onOpen={openScene}
+              onActivate={activateStoredScene}
+              onRename={renameStoredScene}
+              onDuplicate={duplicateStoredScene}
+              onDelete={deleteStoredScene}
+              onRefresh={refreshScenes}
+            />
+          )}
+
+          {/* Kept mounted while hidden so the canvas keeps its image */}
+          <div className={`main-grid ${view === 'editor' ? '' : 'hidden'}`}>
+            {/* Left Column - Controls */}
+            <div className="left-column">
               <div className="section">
-                <label>Lights ({selectedLights.size}/{lights.length} selected)</label>
+                <div className="section-header">
+                  <label>Select Areas ({selectedAreas.length}/{areas.length})</label>
+                  <button
+                    className="link-btn"
+                    onClick={() => setAreaSelection(selectedAreas.length < areas.length ? areas.map(a => a.id) : [])}
+                  >
+                    {selectedAreas.length < areas.length ? 'All' : 'None'}
+                  </button>
+                </div>
                 <div className="lights-list">
-                  {lights.map(l => (
-                    <label key={l.entity_id} className="light-item">
+                  {areas.map(a => (
+                    <label key={a.id} className="light-item">
                       <input
                         type="checkbox"
-                        checked={selectedLights.has(l.entity_id)}
-                        onChange={() => toggleLight(l.entity_id)}
+                        checked={selectedAreas.includes(a.id)}
+                        onChange={() => toggleArea(a.id)}
                       />
-                      <span className="light-name">{l.name}</span>
+                      <span className="light-name">{a.name}</span>
                     </label>
                   ))}
                 </div>
+
+                {selectedAreas.length > 1 && !dynamic && (
+                  <div className="sampling-mode">
+                    <button
+                      className={`preset-btn ${sceneScope === 'combined' ? 'active' : ''}`}
+                      onClick={() => {
+                        setSceneScope('combined')
+                        setCollision(null)
+                      }}
+                    >
+                      One scene
+                    </button>
+                    <button
+                      className={`preset-btn ${sceneScope === 'per-area' ? 'active' : ''}`}
+                      onClick={() => {
+                        setSceneScope('per-area')
+                        setCollision(null)
+                      }}
+                    >
+                      Scene per area
+                    </button>
+                  </div>
+                )}
               </div>
-            )}
-
-            <div className="section">
-              <label>Scene Name</label>
-              <input
-                type="text"
-                value={sceneName}
-                onChange={e => setSceneName(e.target.value)}
-                placeholder="My Image Scene"
-              />
-
-              <label className="brightness-label">Brightness ({Math.round(brightness / 255 * 100)}%)</label>
-              <input
-                type="range"
-                className="brightness-slider"
-                min="1"
-                max="255"
-                value={brightness}
-                onChange={e => setBrightness(Number(e.target.value))}
-              />
-
-              <button
-                className="create-btn"
-                onClick={createScene}
-                disabled={samples.length === 0}
-              >
-                Create Scene
-              </button>
-            </div>
-          </div>
 
-          {/* Right Column - Visuals */}
-          <div className="right-column">
-            <div className="section">
-              <label>Presets</label>
-              <div className="presets">
-                {PRESETS.map(p => (
+              {lights.length > 0 && (
+                <div className="section">
+                  <label>
+                    Lights ({activeLights.filter(l => selectedLights.has(l.entity_id)).length}/{activeLights.length} selected)
+                  </label>
+                  <LightsList
+                    lights={lights}
+                    sceneIds={new Set(sceneLights.map(l => l.entity_id))}
+                    activeIds={new Set(activeLights.map(l => l.entity_id))}
+                    selected={selectedLights}
+                    colorModeOverrides={colorModeOverrides}
+                    groupModes={groupModes}
+                    onToggle={toggleLight}
+                    onColorModeChange={setColorMode}
+                    onGroupModeChange={setGroupMode}
+                  />
+
+                  {sceneLights.some(l => l.kind === 'color_temp') && (
+                    <label className="light-item toggle-item">
+                      <input
+                        type="checkbox"
+                        checked={includeTunable}
+                        onChange={e => setLightClassIncluded('color_temp', e.target.checked)}
+                      />
+                      <span className="light-name">Include tunable white lights (color temperature from image)</span>
+                    </label>
+                  )}
+                  {sceneLights.some(l => l.kind === 'brightness') && (
+                    <label className="light-item toggle-item">
+                      <input
+                        type="checkbox"
+                        checked={includeDimmable}
+                        onChange={e => setLightClassIncluded('brightness', e.target.checked)}
+                      />
+                      <span className="light-name">Include dimmable lights (brightness from image)</span>
+                    </label>
+                  )}
+                  {activeLights.some(l => l.kind === 'color') && (
+                    <button className="link-btn" onClick={() => setCalibrating(true)}>
+                      Calibrate bulbs...
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <div className="section">
+                {editingSceneId && (
+                  <div className="editing-banner">
+                    <span>Editing {savedScene?.entityId ?? `scene.${editingSceneId}`}</span>
+                    <button className="link-btn" onClick={startNewScene}>New scene</button>
+                  </div>
+                )}
+                {sharedLook && (
+                  <div className="editing-banner">
+                    <span>Shared look "{sharedLook.name}" ({sharedLook.dots.length} dots)</span>
+                    <button className="link-btn" onClick={applySharedLook}>Apply to selected lights</button>
+                    <button className="link-btn" onClick={() => setSharedLook(null)}>Dismiss</button>
+                  </div>
+                )}
+                <label>Scene Name</label>
+                <input
+                  type="text"
+                  value={sceneName}
+                  onChange={e => {
+                    setSceneName(e.target.value)
+                    setCollision(null)
+                  }}
+                  placeholder="My Image Scene"
+                />
+
+                <label className="brightness-label">Master Brightness ({Math.round(brightness / 255 * 100)}%)</label>
+                <input
+                  type="range"
+                  className="brightness-slider"
+                  min="1"
+                  max="255"
+                  value={brightness}
+                  onChange={e => setBrightness(Number(e.target.value))}
+                />
+
+                <div className="sampling-mode">
                   <button
-                    key={p.file}
-                    className={`preset-btn ${selectedPreset === p.file ? 'active' : ''}`}
-                    onClick={() => loadPreset(p.file)}
+                    className={`preset-btn ${brightnessMode === 'manual' ? 'active' : ''}`}
+                    onClick={() => setBrightnessMode('manual')}
                   >
-                    {p.name}
+                    Per light
                   </button>
-                ))}
-              </div>
-            </div>
+                  <button
+                    className={`preset-btn ${brightnessMode === 'image' ? 'active' : ''}`}
+                    onClick={() => setBrightnessMode('image')}
+                  >
+                    From image
+                  </button>
+                </div>
+
+                {brightnessMode === 'image' && (
+                  <>
+                    <label className="brightness-label">Darkest Light ({Math.round(minBrightness / 255 * 100)}%)</label>
+                    <input
+                      type="range"
+                      className="brightness-slider"
+                      min="1"
+                      max={maxBrightness}
+                      value={minBrightness}
+                      onChange={e => setMinBrightness(Number(e.target.value))}
+                    />
+                    <label className="brightness-label">Brightest Light ({Math.round(maxBrightness / 255 * 100)}%)</label>
+                    <input
+                      type="range"
+                      className="brightness-slider"
+                      min={minBrightness}
+                      max="255"
+                      value={maxBrightness}
+                      onChange={e => setMaxBrightness(Number(e.target.value))}
+                    />
+                  </>
+                )}
+
+                <label className="light-item toggle-item">
+                  <input
+                    type="checkbox"
+                    checked={normalize}
+                    onChange={e => setNormalize(e.target.checked)}
+                  />
+                  <span className="light-name">Boost colors for smart bulbs</span>
+                </label>
+
+                <label className="light-item toggle-item">
+                  <input
+                    type="checkbox"
+                    checked={dynamic}
+                    onChange={e => setDynamicMode(e.target.checked)}
+                  />
+                  <span className="light-name">Dynamic scene (dots drift across the image)</span>
+                </label>
+
+                {dynamic && (
+                  <>
+                    <div className="sampling-mode">
+                      {(Object.keys(PATH_KIND_LABELS) as PathKind[]).map(kind => (
+                        <button
+                          key={kind}
+                          className={`preset-btn ${animation.pathKind === kind ? 'active' : ''}`}
+                          onClick={() => updateAnimation({ pathKind: kind })}
+                        >
+                          {PATH_KIND_LABELS[kind]}
+                        </button>
+                      ))}
+                    </div>
+                    {animation.pathKind === 'drawn' ? (
+                      <p className="empty-note">Click a swatch, then "Draw path" and drag across the image.</p>
+                    ) : (
+                      <>
+                        <label className="brightness-label">Path Size ({Math.round(animation.amplitude * 100)}% of width)</label>
+                        <input
+                          type="range"
+                          className="brightness-slider"
+                          min="0.02"
+                          max="0.3"
+                          step="0.01"
+                          value={animation.amplitude}
+                          onChange={e => updateAnimation({ amplitude: Number(e.target.value) })}
+                        />
+                      </>
+                    )}
+                    <label className="brightness-label">Loop Length ({animation.loopSeconds}s)</label>
+                    <input
+                      type="range"
+                      className="brightness-slider"
+                      min="10"
+                      max="600"
+                      step="10"
+                      value={animation.loopSeconds}
+                      onChange={e => updateAnimation({ loopSeconds: Number(e.target.value) })}
+                    />
+                    <label className="brightness-label">
+                      Keyframes ({animation.keyframes}, one every {Math.round(animation.loopSeconds / animation.keyframes * 10) / 10}s)
+                    </label>
+                    <input
+                      type="range"
+                      className="brightness-slider"
+                      min="2"
+                      max="24"
+                      value={animation.keyframes}
+                      onChange={e => updateAnimation({ keyframes: Number(e.target.value) })}
+                    />
+                  </>
+                )}
+
+                <label className="light-item toggle-item">
+                  <input
+                    type="checkbox"
+                    checked={livePreview}
+                    onChange={e => setLivePreview(e.target.checked)}
+                  />
+                  <span className="light-name">
+                    Live preview{livePreview && !preview.ready ? ' (saving current state…)' : ''}
+                  </span>
+                </label>
+
+                <button
+                  className="create-btn"
+                  onClick={createScene}
+                  disabled={samples.length === 0}
+                >
+                  {dynamic
+                    ? 'Save Animated Script'
+                    : isBatch ? `Create ${selectedAreas.length} Scenes` : editingSceneId ? 'Update Scene' : 'Create Scene'}
+                </button>
+
+                {!dynamic && (
+                  <button className="link-btn" onClick={openFileDialog}>
+                    Import / Export...
+                  </button>
+                )}
+
+                {!dynamic && !isBatch && (
+                  <button className="link-btn" onClick={() => setScheduling(true)} disabled={samples.length === 0}>
+                    {savedScene ? `Schedule "${savedScene.name}"...` : 'Schedule day cycle...'}
+                  </button>
+                )}
+
+                <button className="link-btn" onClick={shareLook} disabled={samples.length === 0}>
+                  Copy share link
+                </button>
+                {shareUrl && (
+                  <input
+                    type="text"
+                    className="share-url"
+                    readOnly
+                    value={shareUrl}
+                    onFocus={e => e.target.select()}
+                  />
+                )}
+
+                {runningScript && (
+                  <button className="link-btn" onClick={stopAnimation}>
+                    Stop script.{runningScript}
+                  </button>
+                )}
 
-            <div className="section">
-              <div
-                className={`drop-zone ${isDragOver ? 'drag-over' : ''} ${imageUrl ? 'has-image' : ''}`}
-                onClick={() => fileInputRef.current?.click()}
-                onDrop={handleDrop}
-                onDragOver={handleDragOver}
-                onDragLeave={handleDragLeave}
-              >
-                {!imageUrl && (
-                  <div className="drop-zone-content">
-                    <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
-                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M17 8l-5-5-5 5M12 3v12"/>
-                    </svg>
-                    <span>Drop image here or click to browse</span>
+                {collision && (
+                  <div className="collision-dialog">
+                    <span>
+                      {pendingCycle
+                        ? `The day cycle would overwrite ${collision.join(', ')}.`
+                        : collision.length === 1
+                          ? `${dynamic ? 'script' : 'scene'}.${collision[0]} already exists.`
+                          : `${collision.length} scenes already exist: ${collision.map(id => `scene.${id}`).join(', ')}.`}
+                    </span>
+                    <div className="collision-actions">
+                      <button className="link-btn" onClick={() => resolveCollision('overwrite')}>Overwrite</button>
+                      <button className="link-btn" onClick={() => resolveCollision('suffix')}>Save as new</button>
+                      <button className="link-btn" onClick={() => resolveCollision('cancel')}>Cancel</button>
+                    </div>
                   </div>
                 )}
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageUpload}
-                  style={{ display: 'none' }}
-                />
+
+                {batchReport && (
+                  <BatchReport results={batchReport} onDismiss={() => setBatchReport(null)} />
+                )}
               </div>
+            </div>
 
-              <div
-                className="preview-wrapper"
-                style={{ display: imageUrl ? 'flex' : 'none' }}
-              >
-                <div
-                  className="preview-container"
-                  ref={containerRef}
-                >
-                  <canvas ref={canvasRef} className="preview" />
-                  {samples.map(s => (
-                    <div
-                      key={s.id}
-                      className={`sample-dot ${dragging === s.id ? 'dragging' : ''} ${highlighted === s.id ? 'highlighted' : ''}`}
-                      style={{
-                        left: `${s.x * 100}%`,
-                        top: `${s.y * 100}%`,
-                        backgroundColor: `rgb(${s.r},${s.g},${s.b})`
-                      }}
-                      onMouseDown={() => handleMouseDown(s.id)}
-                      title={s.lightName}
-                    />
+            {/* Right Column - Visuals */}
+            <div className="right-column">
+              <div className="section">
+                <label>Presets</label>
+                <div className="presets">
+                  {PRESETS.map(p => (
+                    <button
+                      key={p.file}
+                      className={`preset-btn ${selectedPreset === p.file ? 'active' : ''}`}
+                      onClick={() => loadPreset(p.file)}
+                    >
+                      {p.name}
+                    </button>
                   ))}
+                  <button
+                    className={`preset-btn ${generating ? 'active' : ''}`}
+                    onClick={() => setGenerating(g => !g)}
+                  >
+                    Generate...
+                  </button>
                 </div>
+                {generating && <PaletteGenerator onGenerate={loadGeneratedPalette} />}
               </div>
 
-              {samples.length > 0 && (
-                <div className="swatches">
-                  {samples.map(s => (
-                    <div
-                      key={s.id}
-                      className="swatch-wrapper"
-                      title={s.lightName}
-                      onClick={() => {
-                        setHighlighted(s.id)
-                        setTimeout(() => setHighlighted(null), HIGHLIGHT_DURATION_MS)
-                      }}
-                    >
+              <div className="section">
+                <div
+                  className={`drop-zone ${isDragOver ? 'drag-over' : ''} ${imageUrl ? 'has-image' : ''}`}
+                  onClick={() => fileInputRef.current?.click()}
+                  onDrop={handleDrop}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                >
+                  {!imageUrl && (
+                    <div className="drop-zone-content">
+                      <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M17 8l-5-5-5 5M12 3v12"/>
+                      </svg>
+                      <span>Drop image here or click to browse</span>
+                    </div>
+                  )}
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handleImageUpload}
+                    style={{ display: 'none' }}
+                  />
+                </div>
+
+                <div
+                  className="preview-wrapper"
+                  style={{ display: imageUrl ? 'flex' : 'none' }}
+                >
+                  <div
+                    className={`preview-container ${drawingPath ? 'drawing' : ''}`}
+                    ref={containerRef}
+                    onPointerDown={startPath}
+                    onPointerMove={extendPath}
+                    onPointerUp={finishPath}
+                    onPointerCancel={finishPath}
+                  >
+                    <canvas ref={canvasRef} className="preview" />
+                    {dynamic && (
+                      <svg className="path-overlay" viewBox="0 0 1 1" preserveAspectRatio="none">
+                        {pathPreviews.map(p => (
+                          <polyline key={p.id} points={p.points} stroke={p.color} />
+                        ))}
+                        {draftPath && <polyline className="draft" points={toSvgPoints(draftPath)} />}
+                      </svg>
+                    )}
+                    {sampleRadius > 0 && displaySamples.map(s => (
                       <div
-                        className="swatch"
-                        style={{ backgroundColor: `rgb(${s.r},${s.g},${s.b})` }}
+                        key={`${s.id}-region`}
+                        className="sample-region"
+                        style={{
+                          left: `${s.x * 100}%`,
+                          top: `${s.y * 100}%`,
+                          width: `${sampleRadius * 200}%`
+                        }}
                       />
-                      <span className="swatch-label">{s.lightName}</span>
-                    </div>
-                  ))}
+                    ))}
+                    {displaySamples.map(s => (
+                      <div
+                        key={s.id}
+                        className={`sample-dot ${dragging === s.id ? 'dragging' : ''} ${highlighted === s.id ? 'highlighted' : ''}`}
+                        style={{
+                          left: `${s.x * 100}%`,
+                          top: `${s.y * 100}%`,
+                          backgroundColor: `rgb(${s.r},${s.g},${s.b})`
+                        }}
+                        tabIndex={0}
+                        role="button"
+                        aria-roledescription="color sample"
+                        aria-label={`${s.lightName}: ${describeColor(s.r, s.g, s.b)}`}
+                        aria-keyshortcuts="ArrowLeft ArrowRight ArrowUp ArrowDown Enter"
+                        onPointerDown={e => handleDotPointerDown(e, s.id)}
+                        onPointerMove={handleDotPointerMove}
+                        onPointerUp={() => setDragging(null)}
+                        onPointerCancel={() => setDragging(null)}
+                        onKeyDown={e => handleDotKeyDown(e, s.id)}
+                        title={s.lightName}
+                      />
+                    ))}
+                  </div>
                 </div>
-              )}
 
-              <button className="randomize-btn" onClick={randomizeSamples}>
-                Randomize Samples
-              </button>
+                {dynamic && samples.length > 0 && (
+                  <AnimationTimeline
+                    phase={phase}
+                    playing={playing}
+                    keyframes={getKeyframeTimes(animation)}
+                    loopSeconds={animation.loopSeconds}
+                    onTogglePlay={() => setPlaying(p => !p)}
+                    onSeek={t => {
+                      setPlaying(false)
+                      setPhase(t)
+                    }}
+                  />
+                )}
+
+                {samples.length > 0 && (
+                  <div className="swatches">
+                    {displaySamples.map(s => (
+                      <div
+                        key={s.id}
+                        className="swatch-wrapper"
+                        title={s.lightName}
+                        role="button"
+                        tabIndex={0}
+                        aria-expanded={editingSample === s.id}
+                        aria-label={`${s.lightName}: ${describeColor(s.r, s.g, s.b)}, ${getBrightnessPercent(s)}% brightness`}
+                        onClick={() => selectSwatch(s.id)}
+                        onKeyDown={e => {
+                          if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return
+                          e.preventDefault()
+                          selectSwatch(s.id)
+                        }}
+                      >
+                        <div
+                          className={`swatch ${editingSample === s.id ? 'selected' : ''}`}
+                          style={{ backgroundColor: `rgb(${getPreviewColor(s, sceneSettings).join(',')})` }}
+                        />
+                        <span className="swatch-label">{s.lightName}</span>
+                        <span className="swatch-brightness">{getBrightnessPercent(s)}%</span>
+                        <button
+                          className={`swatch-lock ${s.locked ? 'locked' : ''}`}
+                          onClick={e => {
+                            e.stopPropagation()
+                            toggleSampleLock(s.id)
+                          }}
+                          title={s.locked ? 'Locked: kept when rerolling' : 'Lock to keep this color when rerolling'}
+                          aria-label={`Lock ${s.lightName}`}
+                          aria-pressed={!!s.locked}
+                        >
+                          {s.locked ? '🔒' : '🔓'}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {editingSampleData && (
+                  <div className="sample-editor">
+                    <label className="brightness-label">
+                      {editingSampleData.lightName} ({getBrightnessPercent(editingSampleData)}%)
+                    </label>
+                    {brightnessMode === 'image' ? (
+                      <p className="empty-note">Brightness follows the image. Switch to "Per light" to set it by hand.</p>
+                    ) : (
+                      <input
+                        type="range"
+                        className="brightness-slider"
+                        min="1"
+                        max="255"
+                        value={editingSampleData.brightness ?? 255}
+                        onChange={e => setSampleBrightness(editingSampleData.id, Number(e.target.value))}
+                      />
+                    )}
+                    {dynamic && animation.pathKind === 'drawn' && (
+                      <div className="path-actions">
+                        <button className="link-btn" onClick={() => setDrawingPath(editingSampleData.id)}>
+                          {drawingPath === editingSampleData.id ? 'Drag across the image...' : 'Draw path'}
+                        </button>
+                        {paths[editingSampleData.id] && (
+                          <button className="link-btn" onClick={() => clearPath(editingSampleData.id)}>
+                            Clear path
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="sampling-mode">
+                  <button
+                    className={`preset-btn ${samplingMode === 'random' ? 'active' : ''}`}
+                    onClick={() => setSamplingMode('random')}
+                  >
+                    Random
+                  </button>
+                  <button
+                    className={`preset-btn ${samplingMode === 'palette' ? 'active' : ''}`}
+                    onClick={() => setSamplingMode('palette')}
+                  >
+                    Smart palette
+                  </button>
+                  <button
+                    className={`preset-btn ${samplingMode === 'spatial' ? 'active' : ''}`}
+                    onClick={() => setSamplingMode('spatial')}
+                    disabled={selectedAreas.length === 0}
+                    title={selectedAreas.length > 0 ? 'Place dots where the lights are in the room' : 'Select an area first'}
+                  >
+                    Spatial
+                  </button>
+                </div>
+
+                {samplingMode === 'spatial' && (
+                  <>
+                    {selectedAreas.length > 1 && (
+                      <select value={layoutAreaId} onChange={e => setLayoutArea(e.target.value)}>
+                        {selectedAreas.map(id => (
+                          <option key={id} value={id}>{areas.find(a => a.id === id)?.name ?? id}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button className="link-btn" onClick={() => setEditingLayout(true)} disabled={!layoutAreaId}>
+                      Edit room layout...
+                    </button>
+                    <div className="sampling-mode">
+                      <button
+                        className={`preset-btn ${areaLayout.mapping.mirror ? 'active' : ''}`}
+                        onClick={() => updateMapping({ mirror: !areaLayout.mapping.mirror })}
+                      >
+                        Mirror
+                      </button>
+                      <button
+                        className="preset-btn"
+                        onClick={() => updateMapping({ rotation: (areaLayout.mapping.rotation + 90) % 360 as Rotation })}
+                      >
+                        Rotate ({areaLayout.mapping.rotation}°)
+                      </button>
+                    </div>
+                    <label className="brightness-label">Layout Scale ({Math.round(areaLayout.mapping.scale * 100)}%)</label>
+                    <input
+                      type="range"
+                      className="brightness-slider"
+                      min="0.3"
+                      max="1.5"
+                      step="0.05"
+                      value={areaLayout.mapping.scale}
+                      onChange={e => updateMapping({ scale: Number(e.target.value) })}
+                    />
+                    <label className="brightness-label">Jitter ({Math.round(spatialJitter * 100)}% of image)</label>
+                    <input
+                      type="range"
+                      className="brightness-slider"
+                      min="0"
+                      max={MAX_SPATIAL_JITTER}
+                      step="0.01"
+                      value={spatialJitter}
+                      onChange={e => setSpatialJitter(Number(e.target.value))}
+                    />
+                  </>
+                )}
+
+                {samplingMode === 'palette' && (
+                  <>
+                    <label className="brightness-label">Distinct colors ({paletteSize})</label>
+                    <input
+                      type="range"
+                      className="brightness-slider"
+                      min="1"
+                      max={MAX_PALETTE_SIZE}
+                      value={paletteSize}
+                      onChange={e => setPaletteSize(Number(e.target.value))}
+                    />
+                  </>
+                )}
+
+                <label className="brightness-label">
+                  Sample Radius ({sampleRadius > 0 ? `${Math.round(sampleRadius * 1000) / 10}% of width` : 'single pixel'})
+                </label>
+                <input
+                  type="range"
+                  className="brightness-slider"
+                  min="0"
+                  max={MAX_SAMPLE_RADIUS}
+                  step="0.005"
+                  value={sampleRadius}
+                  onChange={e => updateRegionSampling(Number(e.target.value), regionMode)}
+                />
+                {sampleRadius > 0 && (
+                  <div className="sampling-mode">
+                    <button
+                      className={`preset-btn ${regionMode === 'average' ? 'active' : ''}`}
+                      onClick={() => updateRegionSampling(sampleRadius, 'average')}
+                    >
+                      Average
+                    </button>
+                    <button
+                      className={`preset-btn ${regionMode === 'median' ? 'active' : ''}`}
+                      onClick={() => updateRegionSampling(sampleRadius, 'median')}
+                    >
+                      Median
+                    </button>
+                  </div>
+                )}
+
+                <button className="randomize-btn" onClick={randomizeSamples}>
+                  {samplingMode === 'palette' ? 'Extract Palette' : samplingMode === 'spatial' ? 'Place from Layout' : 'Randomize Samples'}
+                </button>
+                <div className="history-actions">
+                  <button className="link-btn" onClick={undo} disabled={!canUndo} title="Ctrl+Z">
+                    Undo
+                  </button>
+                  <button className="link-btn" onClick={redo} disabled={!canRedo} title="Ctrl+Shift+Z">
+                    Redo
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
-        </div>
+        </>
+      )}
+
+      {editingLayout && (
+        <LayoutEditor
+          areaName={areas.find(a => a.id === layoutAreaId)?.name ?? layoutAreaId}
+          lights={activeLights.filter(l => areaOf.get(l.entity_id) === layoutAreaId)}
+          layout={areaLayout}
+          onChange={updateAreaLayout}
+          onClose={() => setEditingLayout(false)}
+        />
+      )}
+
+      {calibrating && (
+        <CalibrationWizard
+          lights={activeLights.filter(l => l.kind === 'color')}
+          states={states}
+          store={profileStore}
+          getToken={currentToken}
+          onChange={store => {
+            setProfileStore(store)
+            setStatus({ msg: 'Profile saved', type: 'success', key: Date.now() })
+          }}
+          onRestoreError={e => {
+            setStatus({ msg: `Failed to restore the calibrated light: ${getErrorMessage(e)}`, type: 'error', key: Date.now() })
+          }}
+          onClose={() => setCalibrating(false)}
+        />
+      )}
+
+      {fileDialog && (
+        <SceneFileDialog
+          exportConfig={fileDialog.exportConfig}
+          onImport={importScene}
+          onClose={() => setFileDialog(null)}
+        />
       )}
 
-      {status && (
-        <div key={status.key} className={`status ${status.type}`}>
-          <div className="status-progress" />
-          <span>{status.msg}</span>
+      {scheduling && (
+        <ScheduleDialog
+          scene={savedScene}
+          onSchedule={scheduleScene}
+          onScheduleDayCycle={scheduleDayCycle}
+          onClose={() => setScheduling(false)}
+        />
+      )}
+
+      {loginExpired && connected && (
+        <div className="modal-backdrop">
+          <div className="modal" role="alertdialog" aria-labelledby="login-expired-title">
+            <strong id="login-expired-title">Your Home Assistant login has ended</strong>
+            <p className="empty-note">
+              Home Assistant no longer accepts it: it expired, was revoked, or the token was deleted.
+              {authRef.current && ' Logging in again leaves this page and unsaved changes to the scene are lost; "Import / Export..." can keep a copy first.'}
+            </p>
+            <div className="calibration-actions">
+              <button onClick={relogin}>Log in again</button>
+              <button className="link-btn" onClick={() => setLoginExpired(false)}>Not now</button>
+            </div>
+          </div>
         </div>
       )}
+
+      <div className="status-area">
+        {canRevert && !livePreview && (
+          <div className="status revert">
+            <span>Lights changed by the generator</span>
+            <button className="link-btn" onClick={revertRoom}>Revert</button>
+            <button className="link-btn" onClick={keepRoom}>Keep</button>
+          </div>
+        )}
+        {status && (
+          <div key={status.key} className={`status ${status.type}`}>
+            <div className="status-progress" />
+            <span>{status.msg}</span>
+          </div>
+        )}
+      </div>
     </div>
   )
 }
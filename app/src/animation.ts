@@ -0,0 +1,96 @@
+import type { Point, SamplePoint } from './types'
+
+// 'drift' wanders in a slow figure eight, 'orbit' circles, 'drawn' follows a user-drawn path
+// (stored relative to its first point, so it moves along with the dot)
+export type PathKind = 'drift' | 'orbit' | 'drawn'
+
+export interface AnimationSettings {
+  pathKind: PathKind
+  // Seconds for one full loop through every keyframe
+  loopSeconds: number
+  keyframes: number
+  // Size of the auto paths, as a fraction of image width
+  amplitude: number
+}
+
+export const DEFAULT_ANIMATION: AnimationSettings = {
+  pathKind: 'drift',
+  loopSeconds: 60,
+  keyframes: 8,
+  amplitude: 0.1
+}
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v))
+
+// Position along a closed polyline (the path returns to its start), t in [0, 1)
+function pointOnPath(path: Point[], t: number): Point {
+  const loop = [...path, path[0]]
+  const lengths = loop.slice(1).map((p, i) => Math.hypot(p.x - loop[i].x, p.y - loop[i].y))
+  const total = lengths.reduce((sum, l) => sum + l, 0)
+  if (total === 0) return path[0]
+
+  let remaining = t * total
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i]) {
+      const f = lengths[i] === 0 ? 0 : remaining / lengths[i]
+      return {
+        x: loop[i].x + (loop[i + 1].x - loop[i].x) * f,
+        y: loop[i].y + (loop[i + 1].y - loop[i].y) * f
+      }
+    }
+    remaining -= lengths[i]
+  }
+  return path[0]
+}
+
+// Where a sample sits at time t; every path starts (and ends) at the sample's own position.
+// `index` staggers the auto paths so the dots don't move in lockstep.
+export function getPathPosition(
+  sample: SamplePoint,
+  index: number,
+  t: number,
+  settings: AnimationSettings,
+  drawn?: Point[]
+): Point {
+  const angle = 2 * Math.PI * t
+  const phase = index * 2.4
+  const a = settings.amplitude
+
+  switch (settings.pathKind) {
+    case 'drift':
+      return {
+        x: clamp01(sample.x + a * (Math.sin(angle + phase) - Math.sin(phase))),
+        y: clamp01(sample.y + a * 0.6 * (Math.sin(2 * angle + phase) - Math.sin(phase)))
+      }
+    case 'orbit':
+      return {
+        x: clamp01(sample.x + a * (Math.cos(angle + phase) - Math.cos(phase))),
+        y: clamp01(sample.y + a * (Math.sin(angle + phase) - Math.sin(phase)))
+      }
+    case 'drawn': {
+      if (!drawn || drawn.length < 2) return { x: sample.x, y: sample.y }
+      const offset = pointOnPath(drawn, t)
+      return { x: clamp01(sample.x + offset.x), y: clamp01(sample.y + offset.y) }
+    }
+  }
+}
+
+// Samples moved to their positions at time t, recolored from the image
+export function getFrameSamples(
+  samples: SamplePoint[],
+  paths: Record<string, Point[]>,
+  settings: AnimationSettings,
+  t: number,
+  getColor: (x: number, y: number) => [number, number, number]
+): SamplePoint[] {
+  return samples.map((s, i) => {
+    const { x, y } = getPathPosition(s, i, t, settings, paths[s.id])
+    const [r, g, b] = getColor(x, y)
+    return { ...s, x, y, r, g, b }
+  })
+}
+
+// Evenly spaced keyframe times over one loop
+export function getKeyframeTimes(settings: AnimationSettings): number[] {
+  return Array.from({ length: settings.keyframes }, (_, k) => k / settings.keyframes)
+}
@@ -0,0 +1,138 @@
+// Home Assistant OAuth2 login: authorize redirect, code exchange, refresh and revoke.
+// The token endpoints go through the auth proxy; only the login page itself is
+// opened on Home Assistant's own URL. Sessions are kept per connection profile.
+
+import { getProxyPath, profileKey } from './connections'
+
+const SESSION_KEY = 'ha-auth'
+const STATE_KEY = 'ha-auth-state'
+const URL_KEY = 'ha-url'
+// Refresh this long before the access token runs out
+const EXPIRY_MARGIN_MS = 60000
+
+export interface AuthSession {
+  // Home Assistant's own URL, where the login page lives
+  haUrl: string
+  accessToken: string
+  refreshToken: string
+  // Epoch ms when the access token expires
+  expiresAt: number
+}
+
+interface TokenResponse {
+  access_token: string
+  expires_in: number
+  refresh_token?: string
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+// This app is the OAuth client; HA accepts a redirect back to the same host without registration
+function getClientId(): string {
+  return `${window.location.origin}/`
+}
+
+export function loadAuthSession(): AuthSession | null {
+  const raw = localStorage.getItem(profileKey(SESSION_KEY))
+  return raw ? JSON.parse(raw) : null
+}
+
+function saveAuthSession(session: AuthSession) {
+  localStorage.setItem(profileKey(SESSION_KEY), JSON.stringify(session))
+}
+
+export function clearAuthSession() {
+  localStorage.removeItem(profileKey(SESSION_KEY))
+}
+
+// Last Home Assistant URL logged in to, to prefill the login form
+export function getSavedHaUrl(): string {
+  return localStorage.getItem(profileKey(URL_KEY)) || ''
+}
+
+async function requestToken(body: Record<string, string>): Promise<TokenResponse> {
+  const resp = await fetch(`${getProxyPath('auth')}/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ ...body, client_id: getClientId() })
+  })
+  if (!resp.ok) {
+    const error = await resp.json().catch(() => null)
+    throw new AuthError(error?.error_description || `Login failed: ${resp.status}`)
+  }
+  return resp.json()
+}
+
+// Leave for Home Assistant's login page; it sends the browser back here with a code
+export function startLogin(haUrl: string) {
+  const base = haUrl.trim().replace(/\/+$/, '')
+  // getRandomValues, unlike randomUUID, also works on plain-http installs
+  const state = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('')
+  sessionStorage.setItem(STATE_KEY, JSON.stringify({ state, haUrl: base }))
+  localStorage.setItem(profileKey(URL_KEY), base)
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: getClientId(),
+    redirect_uri: getClientId(),
+    state
+  })
+  window.location.assign(`${base}/auth/authorize?${params}`)
+}
+
+// Finish a login when the page was opened by HA's redirect. Resolves to null on a normal page load.
+export async function completeLogin(): Promise<AuthSession | null> {
+  const params = new URLSearchParams(window.location.search)
+  const code = params.get('code')
+  if (!code) return null
+
+  // The code is single-use, so drop it from the address bar whatever happens
+  history.replaceState(null, '', window.location.pathname + window.location.hash)
+  const pending = JSON.parse(sessionStorage.getItem(STATE_KEY) || 'null')
+  sessionStorage.removeItem(STATE_KEY)
+  if (!pending || pending.state !== params.get('state')) {
+    throw new AuthError('Login was not started from this page, please try again')
+  }
+
+  const tokens = await requestToken({ grant_type: 'authorization_code', code })
+  if (!tokens.refresh_token) throw new AuthError('Home Assistant did not issue a refresh token')
+  const session: AuthSession = {
+    haUrl: pending.haUrl,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    expiresAt: Date.now() + tokens.expires_in * 1000
+  }
+  saveAuthSession(session)
+  return session
+}
+
+export function isExpiring(session: AuthSession): boolean {
+  return session.expiresAt - EXPIRY_MARGIN_MS < Date.now()
+}
+
+// New access token; a rotated refresh token replaces the old one when HA sends one
+export async function refreshAuthSession(session: AuthSession): Promise<AuthSession> {
+  const tokens = await requestToken({ grant_type: 'refresh_token', refresh_token: session.refreshToken })
+  const next: AuthSession = {
+    ...session,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token ?? session.refreshToken,
+    expiresAt: Date.now() + tokens.expires_in * 1000
+  }
+  saveAuthSession(next)
+  return next
+}
+
+// Revoking the refresh token ends the login on the HA side (it also invalidates its access tokens)
+export async function revokeAuthSession(session: AuthSession): Promise<void> {
+  clearAuthSession()
+  await fetch(`${getProxyPath('auth')}/revoke`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ token: session.refreshToken })
+  })
+}
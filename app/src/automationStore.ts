@@ -0,0 +1,112 @@
+import { HAApiError, haFetch } from './ha'
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']
+
+// When a schedule fires: a clock time ("HH:MM"), or sunrise/sunset shifted by some
+// minutes (negative is before)
+export type ScheduleTrigger =
+  | { kind: 'time'; at: string }
+  | { kind: 'sun'; event: 'sunrise' | 'sunset'; offsetMinutes: number }
+
+export interface ScheduleOptions {
+  // Days it runs on; every day when empty
+  weekdays: Weekday[]
+  // Seconds the lights take to fade into the scene
+  transition: number
+  // Skip the run while nobody is home
+  onlyWhenHome: boolean
+}
+
+export interface AutomationConfig {
+  id: string
+  alias: string
+  description?: string
+  mode?: 'single' | 'restart' | 'queued' | 'parallel'
+  triggers: object[]
+  conditions: object[]
+  actions: object[]
+}
+
+export function getAutomationConfig(automationId: string, token: string): Promise<AutomationConfig> {
+  return haFetch<AutomationConfig>(`/config/automation/config/${automationId}`, token)
+}
+
+export function saveAutomationConfig(config: AutomationConfig, token: string): Promise<unknown> {
+  return haFetch(`/config/automation/config/${config.id}`, token, {
+    method: 'POST',
+    body: JSON.stringify(config)
+  })
+}
+
+export async function automationExists(automationId: string, token: string): Promise<boolean> {
+  try {
+    await getAutomationConfig(automationId, token)
+    return true
+  } catch (e) {
+    if (e instanceof HAApiError && e.kind === 'not_found') return false
+    throw e
+  }
+}
+
+// First free suffixed id: base_2, base_3, ...
+export async function findFreeAutomationId(baseId: string, token: string): Promise<string> {
+  for (let n = 2; ; n++) {
+    const candidate = `${baseId}_${n}`
+    if (!await automationExists(candidate, token)) return candidate
+  }
+}
+
+// Id of the automation that runs a scene on its schedule
+export function toScheduleId(sceneId: string): string {
+  return `${sceneId}_schedule`
+}
+
+// Home Assistant's signed "HH:MM:SS" offset
+function formatOffset(minutes: number): string {
+  const total = Math.abs(Math.round(minutes))
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${minutes < 0 ? '-' : ''}${pad(Math.floor(total / 60))}:${pad(total % 60)}:00`
+}
+
+export function describeTrigger(trigger: ScheduleTrigger): string {
+  if (trigger.kind === 'time') return `at ${trigger.at}`
+  const minutes = Math.round(trigger.offsetMinutes)
+  if (minutes === 0) return `at ${trigger.event}`
+  return `${Math.abs(minutes)} min ${minutes < 0 ? 'before' : 'after'} ${trigger.event}`
+}
+
+// Turns the scene on when the trigger fires, on the chosen days and, if asked, only
+// while the home zone has someone in it (its state counts the people there)
+export function buildSceneAutomation(
+  automationId: string,
+  sceneName: string,
+  sceneEntityId: string,
+  trigger: ScheduleTrigger,
+  options: ScheduleOptions
+): AutomationConfig {
+  const conditions: object[] = []
+  if (options.weekdays.length > 0 && options.weekdays.length < WEEKDAYS.length) {
+    conditions.push({ condition: 'time', weekday: WEEKDAYS.filter(d => options.weekdays.includes(d)) })
+  }
+  if (options.onlyWhenHome) {
+    conditions.push({ condition: 'numeric_state', entity_id: 'zone.home', above: 0 })
+  }
+
+  return {
+    id: automationId,
+    alias: `${sceneName} (${describeTrigger(trigger)})`,
+    description: 'Scene schedule created by HA Scene Generator',
+    mode: 'single',
+    triggers: [trigger.kind === 'time'
+      ? { trigger: 'time', at: `${trigger.at}:00` }
+      : { trigger: 'sun', event: trigger.event, offset: formatOffset(trigger.offsetMinutes) }],
+    conditions,
+    actions: [{
+      action: 'scene.turn_on',
+      target: { entity_id: sceneEntityId },
+      ...(options.transition > 0 && { data: { transition: options.transition } })
+    }]
+  }
+}
@@ -0,0 +1,198 @@
+// Convert RGB to HSL
+export function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  r /= 255; g /= 255; b /= 255
+  const max = Math.max(r, g, b), min = Math.min(r, g, b)
+  let h = 0, s = 0
+  const l = (max + min) / 2
+
+  if (max !== min) {
+    const d = max - min
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+    switch (max) {
+      case r: h = ((g - b) / d + (g < b ? 6 : 0)) / 6; break
+      case g: h = ((b - r) / d + 2) / 6; break
+      case b: h = ((r - g) / d + 4) / 6; break
+    }
+  }
+  return [h * 360, s * 100, l * 100]
+}
+
+// Convert HSL to RGB
+export function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  h /= 360; s /= 100; l /= 100
+  let r, g, b
+
+  if (s === 0) {
+    r = g = b = l
+  } else {
+    const hue2rgb = (p: number, q: number, t: number) => {
+      if (t < 0) t += 1
+      if (t > 1) t -= 1
+      if (t < 1/6) return p + (q - p) * 6 * t
+      if (t < 1/2) return q
+      if (t < 2/3) return p + (q - p) * (2/3 - t) * 6
+      return p
+    }
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+    const p = 2 * l - q
+    r = hue2rgb(p, q, h + 1/3)
+    g = hue2rgb(p, q, h)
+    b = hue2rgb(p, q, h - 1/3)
+  }
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)]
+}
+
+// sRGB component (0-255) to linear light (0-1)
+function srgbToLinear(c: number): number {
+  c /= 255
+  return c > 0.04045 ? ((c + 0.055) / 1.055) ** 2.4 : c / 12.92
+}
+
+// Convert RGB to CIE 1931 xy (the color space Hue/Zigbee bulbs work in natively)
+export function rgbToXy(r: number, g: number, b: number): [number, number] {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b)
+  const X = lr * 0.4124 + lg * 0.3576 + lb * 0.1805
+  const Y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722
+  const Z = lr * 0.0193 + lg * 0.1192 + lb * 0.9505
+  const sum = X + Y + Z
+  // Black has no chromaticity; fall back to the D65 white point
+  if (sum === 0) return [0.3127, 0.329]
+  return [Number((X / sum).toFixed(4)), Number((Y / sum).toFixed(4))]
+}
+
+// Convert RGB to HA's hs_color (hue 0-360, HSV saturation 0-100)
+export function rgbToHs(r: number, g: number, b: number): [number, number] {
+  const [h] = rgbToHsl(r, g, b)
+  const max = Math.max(r, g, b), min = Math.min(r, g, b)
+  const s = max === 0 ? 0 : (max - min) / max * 100
+  return [Math.round(h * 10) / 10, Math.round(s * 10) / 10]
+}
+
+// Move the grey component of a color onto a dedicated white channel
+export function rgbToRgbw(r: number, g: number, b: number): [number, number, number, number] {
+  const w = Math.min(r, g, b)
+  return [r - w, g - w, b - w, w]
+}
+
+// Like rgbToRgbw, but split white between cold and warm channels by the color's warmth
+export function rgbToRgbww(r: number, g: number, b: number): [number, number, number, number, number] {
+  const [rr, gg, bb, w] = rgbToRgbw(r, g, b)
+  const total = r + b
+  const warmth = total === 0 ? 0.5 : r / total
+  const ww = Math.round(w * warmth)
+  return [rr, gg, bb, w - ww, ww]
+}
+
+// Perceived brightness of an sRGB color, 0-1 (Rec. 709 luma)
+export function getLuma(r: number, g: number, b: number): number {
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255
+}
+
+// CIE 1931 xy to CIE 1960 uv, where distances to the blackbody locus are measured
+function xyToUv(x: number, y: number): [number, number] {
+  const d = -2 * x + 12 * y + 3
+  return [4 * x / d, 6 * y / d]
+}
+
+// Point of the blackbody (Planckian) locus in CIE 1960 uv, 1000-15000 K (Krystek's fit)
+function planckianUv(kelvin: number): [number, number] {
+  const t = kelvin
+  const u = (0.860117757 + 1.54118254e-4 * t + 1.28641212e-7 * t * t)
+    / (1 + 8.42420235e-4 * t + 7.08145163e-7 * t * t)
+  const v = (0.317398726 + 4.22806245e-5 * t + 4.20481691e-8 * t * t)
+    / (1 - 2.89741816e-5 * t + 1.61456053e-7 * t * t)
+  return [u, v]
+}
+
+// Beyond this uv distance from the locus a color has no meaningful color temperature
+const MAX_LOCUS_DISTANCE = 0.05
+const WARMEST_FALLBACK_MIRED = 500
+const COOLEST_FALLBACK_MIRED = 100
+
+// Correlated color temperature of an RGB color in Kelvin. McCamy's approximation holds
+// near the blackbody locus; far from it (saturated blues, greens, purples) it runs off
+// to extremes, e.g. calls deep blue very warm, so those are estimated from the balance
+// of red and blue instead: all red is warm, all blue cool, neither neutral.
+export function rgbToKelvin(r: number, g: number, b: number): number {
+  const [x, y] = rgbToXy(r, g, b)
+  const n = (x - 0.332) / (0.1858 - y)
+  const cct = Math.min(15000, Math.max(1000, 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33))
+
+  const [u, v] = xyToUv(x, y)
+  const [lu, lv] = planckianUv(cct)
+  if (Math.hypot(u - lu, v - lv) <= MAX_LOCUS_DISTANCE) return Math.round(cct)
+
+  const warmth = r + b === 0 ? 0.5 : r / (r + b)
+  const mired = COOLEST_FALLBACK_MIRED + (WARMEST_FALLBACK_MIRED - COOLEST_FALLBACK_MIRED) * warmth ** 2
+  return Math.round(1e6 / mired)
+}
+
+// Approximate sRGB color of a blackbody at the given temperature (Tanner Helland's fit)
+export function kelvinToRgb(kelvin: number): [number, number, number] {
+  const t = kelvin / 100
+  const clamp = (c: number) => Math.round(Math.min(255, Math.max(0, c)))
+  const r = t <= 66 ? 255 : 329.698727446 * (t - 60) ** -0.1332047592
+  const g = t <= 66
+    ? 99.4708025861 * Math.log(t) - 161.1195681661
+    : 288.1221695283 * (t - 60) ** -0.0755148492
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307
+  return [clamp(r), clamp(g), clamp(b)]
+}
+
+// Convert HA's hs_color (hue 0-360, HSV saturation 0-100) to RGB at full value
+export function hsToRgb(h: number, s: number): [number, number, number] {
+  const sat = s / 100
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6
+    return Math.round(255 * (1 - sat * Math.max(0, Math.min(k, 4 - k, 1))))
+  }
+  return [f(5), f(3), f(1)]
+}
+
+function linearToSrgb(c: number): number {
+  const v = c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055
+  return Math.round(Math.min(1, Math.max(0, v)) * 255)
+}
+
+// Convert CIE 1931 xy to the brightest RGB color of that chromaticity
+export function xyToRgb(x: number, y: number): [number, number, number] {
+  if (y === 0) return [255, 255, 255]
+  const X = x / y, Z = (1 - x - y) / y
+  const lr = X * 3.2406 - 1.5372 - Z * 0.4986
+  const lg = -X * 0.9689 + 1.8758 + Z * 0.0415
+  const lb = X * 0.0557 - 0.204 + Z * 1.057
+  const max = Math.max(lr, lg, lb, 1e-6)
+  return [linearToSrgb(lr / max), linearToSrgb(lg / max), linearToSrgb(lb / max)]
+}
+
+// Hue names by the angle they start at
+const HUE_NAMES: [number, string][] = [
+  [0, 'red'],
+  [15, 'orange-red'],
+  [30, 'orange'],
+  [45, 'amber'],
+  [60, 'yellow'],
+  [75, 'lime'],
+  [105, 'green'],
+  [150, 'teal'],
+  [180, 'cyan'],
+  [200, 'sky blue'],
+  [220, 'blue'],
+  [250, 'indigo'],
+  [270, 'violet'],
+  [290, 'purple'],
+  [320, 'magenta'],
+  [340, 'pink'],
+  [355, 'red']
+]
+
+// Plain-language color name such as "dark blue", for screen readers
+export function describeColor(r: number, g: number, b: number): string {
+  const [h, s, l] = rgbToHsl(r, g, b)
+  if (l < 8) return 'black'
+  if (l > 94) return 'white'
+  if (s < 12) return l < 35 ? 'dark gray' : l > 70 ? 'light gray' : 'gray'
+  const hue = HUE_NAMES.filter(([start]) => h >= start).pop()?.[1] ?? 'red'
+  const tone = l < 30 ? 'dark ' : l > 75 ? 'pale ' : s < 40 ? 'muted ' : ''
+  return tone + hue
+}
@@ -0,0 +1,50 @@
+interface AnimationTimelineProps {
+  phase: number
+  playing: boolean
+  // Keyframe positions over the loop, 0-1
+  keyframes: number[]
+  loopSeconds: number
+  onTogglePlay: () => void
+  onSeek: (phase: number) => void
+}
+
+function formatSeconds(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = Math.floor(seconds % 60)
+  return `${m}:${String(s).padStart(2, '0')}`
+}
+
+function AnimationTimeline({ phase, playing, keyframes, loopSeconds, onTogglePlay, onSeek }: AnimationTimelineProps) {
+  return (
+    <div className="timeline">
+      <button className="link-btn timeline-play" onClick={onTogglePlay}>
+        {playing ? 'Pause' : 'Play'}
+      </button>
+      <div className="timeline-track">
+        {keyframes.map(k => (
+          <span
+            key={k}
+            className="timeline-tick"
+            style={{ left: `${k * 100}%` }}
+            onClick={() => onSeek(k)}
+            title={`Keyframe at ${formatSeconds(k * loopSeconds)}`}
+          />
+        ))}
+        <input
+          type="range"
+          className="brightness-slider"
+          min="0"
+          max="1"
+          step="0.001"
+          value={phase}
+          onChange={e => onSeek(Number(e.target.value))}
+        />
+      </div>
+      <span className="timeline-time">
+        {formatSeconds(phase * loopSeconds)} / {formatSeconds(loopSeconds)}
+      </span>
+    </div>
+  )
+}
+
+export default AnimationTimeline
@@ -0,0 +1,36 @@
+export interface BatchResult {
+  // Area, or time of day for a day cycle
+  label: string
+  ok: boolean
+  // Scene entity on success, the reason on failure
+  detail: string
+  // Saved, but assigning its area, activating or scheduling it failed
+  partial?: boolean
+}
+
+interface BatchReportProps {
+  results: BatchResult[]
+  onDismiss: () => void
+}
+
+function BatchReport({ results, onDismiss }: BatchReportProps) {
+  const succeeded = results.filter(r => r.ok).length
+
+  return (
+    <div className="batch-report">
+      <div className="section-header">
+        <span>{succeeded} of {results.length} scenes created</span>
+        <button className="link-btn" onClick={onDismiss}>Dismiss</button>
+      </div>
+      {results.map(r => (
+        <div key={r.label} className={`batch-result ${r.partial ? 'partial' : r.ok ? 'ok' : 'failed'}`}>
+          <span className="batch-mark">{r.partial ? '!' : r.ok ? '✓' : '✗'}</span>
+          <span className="batch-area">{r.label}</span>
+          <span className="batch-detail">{r.detail}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default BatchReport
@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from 'react'
+import { rgbToHsl } from '../color'
+import { callService } from '../ha'
+import { getDefaultColorMode } from '../lights'
+import {
+  applyProfile,
+  DEFAULT_PROFILE_ID,
+  getModelKey,
+  resolveProfile,
+  type NormalizationProfile,
+  type ProfileStore
+} from '../profiles'
+import { colorPayload } from '../scene'
+import { restoreLights } from '../snapshot'
+import type { HAState, Light } from '../types'
+
+// Delay before a slider change is sent to the bulb
+const SEND_DEBOUNCE_MS = 150
+// Width of the hue band a per-color hue correction affects
+const HUE_SHIFT_RANGE = 30
+
+const REFERENCE_COLORS: { name: string; rgb: [number, number, number] }[] = [
+  { name: 'Red', rgb: [255, 0, 0] },
+  { name: 'Orange', rgb: [255, 128, 0] },
+  { name: 'Yellow', rgb: [255, 220, 0] },
+  { name: 'Green', rgb: [0, 255, 0] },
+  { name: 'Cyan', rgb: [0, 255, 255] },
+  { name: 'Blue', rgb: [0, 0, 255] },
+  { name: 'Purple', rgb: [140, 0, 255] },
+  { name: 'Pink', rgb: [255, 0, 140] },
+  { name: 'Warm white', rgb: [255, 200, 150] },
+]
+
+interface CalibrationWizardProps {
+  lights: Light[]
+  states: Map<string, HAState>
+  store: ProfileStore
+  // Read at each request, so a refreshed token doesn't interrupt calibration
+  getToken: () => string
+  onChange: (store: ProfileStore) => void
+  // Putting the lights back failed after the wizard closed
+  onRestoreError: (e: unknown) => void
+  onClose: () => void
+}
+
+interface SliderProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (value: number) => void
+}
+
+function ProfileSlider({ label, value, min, max, step, onChange }: SliderProps) {
+  return (
+    <>
+      <label className="brightness-label">{label} ({Math.round(value * 100) / 100})</label>
+      <input
+        type="range"
+        className="brightness-slider"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+      />
+    </>
+  )
+}
+
+// Start editing from the bulb's current profile; the built-in default is copied, never edited
+function createDraft(light: Light, store: ProfileStore): NormalizationProfile {
+  const current = resolveProfile(light, store)
+  if (current.id !== DEFAULT_PROFILE_ID) return { ...current }
+  return {
+    ...current,
+    id: `profile_${Date.now()}`,
+    name: [light.manufacturer, light.model].filter(Boolean).join(' ') || light.name
+  }
+}
+
+function CalibrationWizard({ lights, states, store, getToken, onChange, onRestoreError, onClose }: CalibrationWizardProps) {
+  const [entityId, setEntityId] = useState(lights[0]?.entity_id ?? '')
+  const light = lights.find(l => l.entity_id === entityId)
+  const [draft, setDraft] = useState<NormalizationProfile | null>(() => light ? createDraft(light, store) : null)
+  const [refIndex, setRefIndex] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  // States before calibration started, restored when the wizard closes
+  const originalsRef = useRef(new Map(states))
+  const touchedRef = useRef(new Set<string>())
+  // The light list is rebuilt on every state change, including the ones we cause
+  const lightsRef = useRef(lights)
+  lightsRef.current = lights
+  const getTokenRef = useRef(getToken)
+  getTokenRef.current = getToken
+  const onRestoreErrorRef = useRef(onRestoreError)
+  onRestoreErrorRef.current = onRestoreError
+
+  const reference = REFERENCE_COLORS[refIndex]
+  const referenceHue = Math.round(rgbToHsl(...reference.rgb)[0])
+  const hueShift = draft?.hueShifts.find(s => s.hue === referenceHue)?.shift ?? 0
+
+  // Show the reference color on the bulb as the current draft would send it
+  useEffect(() => {
+    const target = lightsRef.current.find(l => l.entity_id === entityId)
+    if (!target || !draft) return
+    const timer = setTimeout(() => {
+      touchedRef.current.add(target.entity_id)
+      callService('light', 'turn_on', {
+        entity_id: target.entity_id,
+        ...colorPayload(getDefaultColorMode(target), applyProfile(reference.rgb, draft)),
+        brightness: 255
+      }, getTokenRef.current())
+        .then(() => setError(null))
+        .catch(e => setError(e instanceof Error ? e.message : String(e)))
+    }, SEND_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [entityId, draft, reference])
+
+  // Put the bulbs back once, when the wizard closes
+  useEffect(() => {
+    const originals = originalsRef.current
+    const touched = touchedRef.current
+    return () => {
+      restoreLights(originals, touched, getTokenRef.current()).catch(e => onRestoreErrorRef.current(e))
+    }
+  }, [])
+
+  const selectLight = (id: string) => {
+    setEntityId(id)
+    const next = lights.find(l => l.entity_id === id)
+    setDraft(next ? createDraft(next, store) : null)
+  }
+
+  const update = (changes: Partial<NormalizationProfile>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev)
+  }
+
+  const setHueShift = (shift: number) => {
+    if (!draft) return
+    const others = draft.hueShifts.filter(s => s.hue !== referenceHue)
+    update({
+      hueShifts: shift === 0 ? others : [...others, { hue: referenceHue, range: HUE_SHIFT_RANGE, shift }]
+    })
+  }
+
+  const setWhiteBalance = (channel: number, gain: number) => {
+    if (!draft) return
+    const whiteBalance = [...draft.whiteBalance] as [number, number, number]
+    whiteBalance[channel] = gain
+    update({ whiteBalance })
+  }
+
+  // Save the draft, optionally assigning it to this light, its model or its manufacturer
+  const save = (scope?: 'entity' | 'model' | 'manufacturer') => {
+    if (!draft || !light) return
+    const profiles = [...store.profiles.filter(p => p.id !== draft.id), draft]
+    const assignments = {
+      entities: { ...store.assignments.entities },
+      models: { ...store.assignments.models },
+      manufacturers: { ...store.assignments.manufacturers }
+    }
+    if (scope === 'entity') assignments.entities[light.entity_id] = draft.id
+    if (scope === 'model') assignments.models[getModelKey(light.manufacturer, light.model)] = draft.id
+    if (scope === 'manufacturer' && light.manufacturer) assignments.manufacturers[light.manufacturer] = draft.id
+    onChange({ profiles, assignments })
+  }
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="section-header">
+          <label>Calibrate Bulb</label>
+          <button className="link-btn" onClick={onClose}>Close</button>
+        </div>
+
+        {!light || !draft ? (
+          <p className="empty-note">Select an area with color lights to calibrate.</p>
+        ) : (
+          <>
+            <select value={entityId} onChange={e => selectLight(e.target.value)}>
+              {lights.map(l => (
+                <option key={l.entity_id} value={l.entity_id}>{l.name}</option>
+              ))}
+            </select>
+
+            <label className="brightness-label">Profile Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => update({ name: e.target.value })}
+            />
+
+            <label className="brightness-label">Reference Color</label>
+            <div className="presets">
+              {REFERENCE_COLORS.map((c, i) => (
+                <button
+                  key={c.name}
+                  className={`preset-btn ${i === refIndex ? 'active' : ''}`}
+                  onClick={() => setRefIndex(i)}
+                >
+                  {c.name}
+                </button>
+              ))}
+            </div>
+
+            <div className="calibration-compare">
+              <div className="calibration-swatch" style={{ backgroundColor: `rgb(${reference.rgb.join(',')})` }} />
+              <p className="empty-note">
+                Adjust until {light.name} looks like this swatch.
+                Sending rgb({applyProfile(reference.rgb, draft).join(', ')}).
+              </p>
+            </div>
+            {error && <p className="empty-note error-note">{error}</p>}
+
+            <div className="calibration-controls">
+              <ProfileSlider
+                label={`Hue shift for ${reference.name}`}
+                value={hueShift} min={-30} max={30} step={1}
+                onChange={setHueShift}
+              />
+              <ProfileSlider
+                label="Boost saturation below"
+                value={draft.saturationThreshold} min={0} max={100} step={1}
+                onChange={v => update({ saturationThreshold: v })}
+              />
+              <ProfileSlider
+                label="Saturation gain"
+                value={draft.saturationGain} min={0.5} max={2.5} step={0.05}
+                onChange={v => update({ saturationGain: v })}
+              />
+              <ProfileSlider
+                label="Saturation lift"
+                value={draft.saturationLift} min={0} max={40} step={1}
+                onChange={v => update({ saturationLift: v })}
+              />
+              <ProfileSlider
+                label="Lightness floor"
+                value={draft.lightnessFloor} min={1} max={50} step={1}
+                onChange={v => update({ lightnessFloor: v })}
+              />
+              <ProfileSlider
+                label="Gamma"
+                value={draft.gamma} min={0.4} max={2.5} step={0.05}
+                onChange={v => update({ gamma: v })}
+              />
+              {['Red', 'Green', 'Blue'].map((channel, i) => (
+                <ProfileSlider
+                  key={channel}
+                  label={`${channel} balance`}
+                  value={draft.whiteBalance[i]} min={0.5} max={1.5} step={0.01}
+                  onChange={v => setWhiteBalance(i, v)}
+                />
+              ))}
+            </div>
+
+            <div className="calibration-actions">
+              <button onClick={() => save()}>Save profile</button>
+              <button onClick={() => save('entity')}>Use for this light</button>
+              {(light.manufacturer || light.model) && (
+                <button onClick={() => save('model')}>Use for {light.model || 'this model'}</button>
+              )}
+              {light.manufacturer && (
+                <button onClick={() => save('manufacturer')}>Use for all {light.manufacturer}</button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CalibrationWizard
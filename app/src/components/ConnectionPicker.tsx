@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import {
+  clearProfileData,
+  DEFAULT_CONNECTION_ID,
+  getActiveConnection,
+  loadConnections,
+  saveConnections,
+  switchConnection,
+  type ConnectionProfile,
+  type HAInstanceInfo
+} from '../connections'
+
+interface ConnectionPickerProps {
+  instances: HAInstanceInfo[]
+  // Also offer adding, editing and removing profiles
+  manage?: boolean
+}
+
+function ConnectionPicker({ instances, manage = false }: ConnectionPickerProps) {
+  const [connections, setConnections] = useState<ConnectionProfile[]>(loadConnections)
+  const [editing, setEditing] = useState(false)
+  const active = getActiveConnection()
+
+  const update = (next: ConnectionProfile[]) => {
+    setConnections(next)
+    saveConnections(next)
+  }
+
+  const updateConnection = (id: string, changes: Partial<ConnectionProfile>) => {
+    update(connections.map(c => c.id === id ? { ...c, ...changes } : c))
+    // The active profile's instance is only read on load
+    if (id === active.id && changes.instance !== undefined) switchConnection(id)
+  }
+
+  const addConnection = () => {
+    const instance = instances.find(i => !connections.some(c => c.instance === i.id)) ?? instances[0]
+    update([...connections, {
+      id: `conn-${Date.now().toString(36)}`,
+      name: instance?.name ?? 'New connection',
+      instance: instance?.id ?? ''
+    }])
+  }
+
+  const removeConnection = (id: string) => {
+    update(connections.filter(c => c.id !== id))
+    clearProfileData(id)
+    if (id === active.id) switchConnection(DEFAULT_CONNECTION_ID)
+  }
+
+  return (
+    <div className="connection-picker">
+      {connections.length > 1 && (
+        <select
+          className="mode-select"
+          value={active.id}
+          onChange={e => switchConnection(e.target.value)}
+          aria-label="Connection profile"
+        >
+          {connections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      )}
+      {manage && (
+        <button className="link-btn" onClick={() => setEditing(e => !e)}>
+          {editing ? 'Done' : 'Connection profiles...'}
+        </button>
+      )}
+
+      {manage && editing && (
+        <div className="connection-list">
+          {connections.map(c => (
+            <div key={c.id} className="connection-item">
+              <input
+                type="text"
+                value={c.name}
+                onChange={e => updateConnection(c.id, { name: e.target.value })}
+                aria-label="Profile name"
+              />
+              <select
+                value={c.instance}
+                onChange={e => updateConnection(c.id, { instance: e.target.value })}
+                aria-label="Home Assistant instance"
+              >
+                <option value="">Server default</option>
+                {instances.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+              </select>
+              <button
+                className="link-btn danger"
+                onClick={() => removeConnection(c.id)}
+                disabled={c.id === DEFAULT_CONNECTION_ID}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {instances.length === 0 && (
+            <p className="empty-note">This server doesn't list its Home Assistant instances, so only the default one is available.</p>
+          )}
+          <button className="link-btn" onClick={addConnection} disabled={instances.length === 0}>
+            Add profile
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ConnectionPicker
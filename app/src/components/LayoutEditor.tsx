@@ -0,0 +1,85 @@
+import { useRef, useState } from 'react'
+import { getLayoutPosition, type AreaLayout } from '../layout'
+import type { Light } from '../types'
+
+interface LayoutEditorProps {
+  areaName: string
+  lights: Light[]
+  layout: AreaLayout
+  onChange: (layout: AreaLayout) => void
+  onClose: () => void
+}
+
+function LayoutEditor({ areaName, lights, layout, onChange, onClose }: LayoutEditorProps) {
+  const [dragging, setDragging] = useState<string | null>(null)
+  const planRef = useRef<HTMLDivElement>(null)
+  // Only a click that also started on the backdrop closes the editor, not the end of a
+  // drag that was let go outside the dialog
+  const pressedBackdropRef = useRef(false)
+
+  // Pointer capture keeps the drag on the light when the pointer slips off it,
+  // for mouse, touch and pen alike
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, entityId: string) => {
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDragging(entityId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging || !planRef.current || !e.currentTarget.hasPointerCapture(e.pointerId)) return
+    const rect = planRef.current.getBoundingClientRect()
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+    const y = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
+    onChange({ ...layout, positions: { ...layout.positions, [dragging]: { x, y } } })
+  }
+
+  return (
+    <div
+      className="modal-backdrop"
+      onPointerDown={e => {
+        pressedBackdropRef.current = e.target === e.currentTarget
+      }}
+      onClick={e => {
+        if (pressedBackdropRef.current && e.target === e.currentTarget) onClose()
+      }}
+    >
+      <div className="modal">
+        <div className="section-header">
+          <label>Room Layout: {areaName}</label>
+          <button className="link-btn" onClick={onClose}>Close</button>
+        </div>
+        <p className="empty-note">
+          Drag each light to where it sits in the room. The top of the plan maps to the top of the image.
+        </p>
+
+        <div className="floor-plan" ref={planRef}>
+          {lights.map((l, i) => {
+            const p = getLayoutPosition(layout, l.entity_id, i, lights.length)
+            const placed = l.entity_id in layout.positions
+            return (
+              <div
+                key={l.entity_id}
+                className={`floor-light ${placed ? '' : 'unplaced'} ${dragging === l.entity_id ? 'dragging' : ''}`}
+                style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                onPointerDown={e => handlePointerDown(e, l.entity_id)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragging(null)}
+                onPointerCancel={() => setDragging(null)}
+              >
+                <span className="floor-light-label">{l.name}</span>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="calibration-actions">
+          <button className="link-btn" onClick={() => onChange({ ...layout, positions: {} })}>
+            Reset positions
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LayoutEditor
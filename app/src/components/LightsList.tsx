@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { getColorModeOptions, getDefaultColorMode, getGroupMode, type GroupMode } from '../lights'
+import type { ColorMode, Light } from '../types'
+
+const COLOR_MODE_LABELS: Record<ColorMode, string> = {
+  rgb: 'RGB',
+  rgbw: 'RGBW',
+  rgbww: 'RGBWW',
+  hs: 'HS',
+  xy: 'XY'
+}
+
+interface LightsListProps {
+  // Area lights, with groups carrying their members
+  lights: Light[]
+  // Entities the scene addresses after resolving groups
+  sceneIds: Set<string>
+  // Scene entities left after the tunable/dimmable class toggles
+  activeIds: Set<string>
+  selected: Set<string>
+  colorModeOverrides: Record<string, ColorMode>
+  groupModes: Record<string, GroupMode>
+  onToggle: (entityId: string) => void
+  onColorModeChange: (light: Light, mode: ColorMode) => void
+  onGroupModeChange: (group: Light, mode: GroupMode) => void
+}
+
+function LightsList({
+  lights,
+  sceneIds,
+  activeIds,
+  selected,
+  colorModeOverrides,
+  groupModes,
+  onToggle,
+  onColorModeChange,
+  onGroupModeChange
+}: LightsListProps) {
+  // Groups the user opened or closed; by default only per-light groups are open
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({})
+
+  const renderRow = (l: Light, member = false) => (
+    <label key={l.entity_id} className={`light-item ${member ? 'member-item' : ''}`}>
+      <input
+        type="checkbox"
+        checked={selected.has(l.entity_id)}
+        onChange={() => onToggle(l.entity_id)}
+      />
+      <span className="light-name">{l.name}</span>
+      {l.kind === 'color' ? (
+        <select
+          className="mode-select"
+          value={colorModeOverrides[l.entity_id] ?? getDefaultColorMode(l)}
+          onChange={e => onColorModeChange(l, e.target.value as ColorMode)}
+          title="Color attribute sent to this light"
+        >
+          {getColorModeOptions(l).map(m => (
+            <option key={m} value={m}>
+              {COLOR_MODE_LABELS[m]}{m === getDefaultColorMode(l) ? ' (native)' : ''}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span className="light-kind">{l.kind === 'color_temp' ? 'Tunable' : 'Dimmable'}</span>
+      )}
+    </label>
+  )
+
+  // A bulb that isn't addressed itself: set through its group, another group, or left out
+  const renderInactiveMember = (group: Light, m: Light) => (
+    <div key={m.entity_id} className="light-item member-item inactive">
+      <span className="light-name">{m.name}</span>
+      <span className="light-kind">
+        {sceneIds.has(group.entity_id)
+          ? 'via group'
+          : sceneIds.has(m.entity_id) ? 'excluded' : 'set by another group'}
+      </span>
+    </div>
+  )
+
+  const renderGroup = (group: Light) => {
+    const mode = getGroupMode(group, groupModes)
+    const isOpen = expanded[group.entity_id] ?? mode === 'members'
+    const whole = activeIds.has(group.entity_id)
+    // Single-color groups sharing bulbs with an earlier group fall back to per-light
+    const overlapping = mode === 'single' && !sceneIds.has(group.entity_id)
+
+    return (
+      <div key={group.entity_id} className="light-group">
+        <div className="light-item group-item">
+          <button
+            className="link-btn group-toggle"
+            onClick={() => setExpanded(prev => ({ ...prev, [group.entity_id]: !isOpen }))}
+            title={isOpen ? 'Hide group members' : 'Show group members'}
+          >
+            {isOpen ? '▾' : '▸'}
+          </button>
+          {whole && (
+            <input
+              type="checkbox"
+              checked={selected.has(group.entity_id)}
+              onChange={() => onToggle(group.entity_id)}
+            />
+          )}
+          <span className="light-name">
+            {group.name} ({group.members.length} lights{overlapping ? ', overlaps another group' : ''})
+          </span>
+          <select
+            className="mode-select"
+            value={mode}
+            onChange={e => onGroupModeChange(group, e.target.value as GroupMode)}
+            title="Whether the group gets one color or each light its own"
+          >
+            <option value="single">One color</option>
+            <option value="members">Per light</option>
+          </select>
+        </div>
+        {isOpen && group.members.map(m =>
+          activeIds.has(m.entity_id) ? renderRow(m, true) : renderInactiveMember(group, m)
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="lights-list">
+      {lights.map(l => {
+        if (l.members.length > 0) return renderGroup(l)
+        return activeIds.has(l.entity_id) ? renderRow(l) : null
+      })}
+    </div>
+  )
+}
+
+export default LightsList
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import {
+  DEFAULT_GRADIENT,
+  DEFAULT_HARMONY,
+  getGeneratorColors,
+  getGeneratorName,
+  HARMONY_LABELS,
+  renderGeneratorImage,
+  type GradientSettings,
+  type HarmonyRule,
+  type HarmonySettings
+} from '../paletteGenerator'
+
+const MIN_STOPS = 2
+const MAX_STOPS = 5
+const HUE_TRACK = 'linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)'
+
+const toHex = (c: [number, number, number]) => `#${c.map(v => v.toString(16).padStart(2, '0')).join('')}`
+const fromHex = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number]
+
+interface PaletteGeneratorProps {
+  onGenerate: (image: string, name: string) => void
+}
+
+function PaletteGenerator({ onGenerate }: PaletteGeneratorProps) {
+  const [kind, setKind] = useState<'harmony' | 'gradient'>('harmony')
+  const [harmony, setHarmony] = useState<HarmonySettings>(DEFAULT_HARMONY)
+  const [gradient, setGradient] = useState<GradientSettings>(DEFAULT_GRADIENT)
+
+  const settings = kind === 'harmony' ? harmony : gradient
+  const colors = getGeneratorColors(settings)
+
+  const updateHarmony = (changes: Partial<HarmonySettings>) => setHarmony(prev => ({ ...prev, ...changes }))
+
+  const setStop = (index: number, color: [number, number, number]) => {
+    setGradient(prev => ({ ...prev, stops: prev.stops.map((s, i) => i === index ? color : s) }))
+  }
+
+  return (
+    <div className="palette-generator">
+      <div className="sampling-mode">
+        <button className={`preset-btn ${kind === 'harmony' ? 'active' : ''}`} onClick={() => setKind('harmony')}>
+          Harmony
+        </button>
+        <button className={`preset-btn ${kind === 'gradient' ? 'active' : ''}`} onClick={() => setKind('gradient')}>
+          Gradient
+        </button>
+      </div>
+
+      {kind === 'harmony' ? (
+        <>
+          <select
+            className="mode-select"
+            value={harmony.rule}
+            onChange={e => updateHarmony({ rule: e.target.value as HarmonyRule })}
+          >
+            {(Object.keys(HARMONY_LABELS) as HarmonyRule[]).map(r => (
+              <option key={r} value={r}>{HARMONY_LABELS[r]}</option>
+            ))}
+          </select>
+          <label className="brightness-label">Base hue ({Math.round(harmony.hue)}°)</label>
+          <input
+            type="range"
+            className="brightness-slider hue-slider"
+            style={{ background: HUE_TRACK }}
+            min="0"
+            max="359"
+            value={harmony.hue}
+            onChange={e => updateHarmony({ hue: Number(e.target.value) })}
+          />
+          <label className="brightness-label">Saturation ({harmony.saturation}%)</label>
+          <input
+            type="range"
+            className="brightness-slider"
+            min="0"
+            max="100"
+            value={harmony.saturation}
+            onChange={e => updateHarmony({ saturation: Number(e.target.value) })}
+          />
+          <label className="brightness-label">Lightness ({harmony.lightness}%)</label>
+          <input
+            type="range"
+            className="brightness-slider"
+            min="10"
+            max="90"
+            value={harmony.lightness}
+            onChange={e => updateHarmony({ lightness: Number(e.target.value) })}
+          />
+        </>
+      ) : (
+        <div className="gradient-stops">
+          {gradient.stops.map((stop, i) => (
+            <input
+              key={i}
+              type="color"
+              value={toHex(stop)}
+              onChange={e => setStop(i, fromHex(e.target.value))}
+              aria-label={`Gradient stop ${i + 1}`}
+            />
+          ))}
+          <button
+            className="link-btn"
+            onClick={() => setGradient(prev => ({ ...prev, stops: [...prev.stops, prev.stops[prev.stops.length - 1]] }))}
+            disabled={gradient.stops.length >= MAX_STOPS}
+          >
+            Add stop
+          </button>
+          <button
+            className="link-btn"
+            onClick={() => setGradient(prev => ({ ...prev, stops: prev.stops.slice(0, -1) }))}
+            disabled={gradient.stops.length <= MIN_STOPS}
+          >
+            Remove stop
+          </button>
+        </div>
+      )}
+
+      <div
+        className="palette-strip"
+        style={{
+          background: kind === 'gradient'
+            ? `linear-gradient(to right, ${colors.map(toHex).join(', ')})`
+            : `linear-gradient(to right, ${colors.map((c, i) =>
+              `${toHex(c)} ${i / colors.length * 100}% ${(i + 1) / colors.length * 100}%`).join(', ')})`
+        }}
+      />
+
+      <button className="randomize-btn" onClick={() => onGenerate(renderGeneratorImage(settings), getGeneratorName(settings))}>
+        Use Palette
+      </button>
+    </div>
+  )
+}
+
+export default PaletteGenerator
@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react'
+import {
+  getSceneFileName,
+  parseSceneFile,
+  toSceneBundle,
+  toSceneYaml,
+  type SceneFileFormat
+} from '../sceneFile'
+import type { SceneConfig } from '../sceneStore'
+
+// 'original' restores the scene's own lights, 'current' maps its dots onto the selected lights in order
+export type ImportTarget = 'original' | 'current'
+
+interface SceneFileDialogProps {
+  // Scene built from the editor, or null when there is nothing to export
+  exportConfig: SceneConfig | null
+  onImport: (config: SceneConfig, target: ImportTarget) => void
+  onClose: () => void
+}
+
+const FORMAT_LABELS: Record<SceneFileFormat, string> = {
+  yaml: 'scenes.yaml',
+  json: 'JSON bundle'
+}
+
+function SceneFileDialog({ exportConfig, onImport, onClose }: SceneFileDialogProps) {
+  const [tab, setTab] = useState<'export' | 'import'>(exportConfig ? 'export' : 'import')
+  const [format, setFormat] = useState<SceneFileFormat>('yaml')
+  const [copied, setCopied] = useState(false)
+  const [importText, setImportText] = useState('')
+  const [sceneIndex, setSceneIndex] = useState(0)
+  const [target, setTarget] = useState<ImportTarget>('original')
+  const [error, setError] = useState<string | null>(null)
+
+  const exportText = useMemo(() => {
+    if (!exportConfig) return ''
+    return format === 'yaml' ? toSceneYaml(exportConfig) : toSceneBundle(exportConfig)
+  }, [exportConfig, format])
+
+  const parsed = useMemo(() => {
+    if (!importText.trim()) return null
+    try {
+      return { scenes: parseSceneFile(importText), error: null }
+    } catch (e) {
+      return { scenes: [], error: e instanceof Error ? e.message : String(e) }
+    }
+  }, [importText])
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText)
+      setCopied(true)
+      setError(null)
+    } catch (e) {
+      setError(`Copy failed: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  const download = () => {
+    if (!exportConfig) return
+    const blob = new Blob([exportText], { type: format === 'yaml' ? 'text/yaml' : 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = getSceneFileName(exportConfig, format)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const openFile = (file: File) => {
+    file.text()
+      .then(text => {
+        setImportText(text)
+        setSceneIndex(0)
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)))
+  }
+
+  const chosen = parsed?.scenes[sceneIndex]
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="section-header">
+          <div className="sampling-mode">
+            <button
+              className={`preset-btn ${tab === 'export' ? 'active' : ''}`}
+              onClick={() => setTab('export')}
+              disabled={!exportConfig}
+            >
+              Export
+            </button>
+            <button
+              className={`preset-btn ${tab === 'import' ? 'active' : ''}`}
+              onClick={() => setTab('import')}
+            >
+              Import
+            </button>
+          </div>
+          <button className="link-btn" onClick={onClose}>Close</button>
+        </div>
+
+        {tab === 'export' && exportConfig ? (
+          <>
+            <div className="sampling-mode">
+              {(Object.keys(FORMAT_LABELS) as SceneFileFormat[]).map(f => (
+                <button
+                  key={f}
+                  className={`preset-btn ${format === f ? 'active' : ''}`}
+                  onClick={() => {
+                    setFormat(f)
+                    setCopied(false)
+                  }}
+                >
+                  {FORMAT_LABELS[f]}
+                </button>
+              ))}
+            </div>
+            <textarea className="scene-file-text" readOnly value={exportText} onFocus={e => e.target.select()} />
+            <div className="calibration-actions">
+              <button onClick={copy}>{copied ? 'Copied!' : 'Copy to clipboard'}</button>
+              <button onClick={download}>Download {getSceneFileName(exportConfig, format)}</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="empty-note">
+              Paste a scenes.yaml entry or an exported JSON bundle, or open a file.
+            </p>
+            <textarea
+              className="scene-file-text"
+              value={importText}
+              onChange={e => {
+                setImportText(e.target.value)
+                setSceneIndex(0)
+              }}
+              placeholder={'- id: ocean\n  name: Ocean\n  entities: ...'}
+            />
+            <input
+              type="file"
+              accept=".yaml,.yml,.json,application/json,text/yaml"
+              onChange={e => {
+                const file = e.target.files?.[0]
+                if (file) openFile(file)
+              }}
+            />
+
+            {parsed?.error && <p className="empty-note error-note">{parsed.error}</p>}
+
+            {parsed && parsed.scenes.length > 1 && (
+              <select value={sceneIndex} onChange={e => setSceneIndex(Number(e.target.value))}>
+                {parsed.scenes.map((s, i) => (
+                  <option key={`${s.id}-${i}`} value={i}>{s.name}</option>
+                ))}
+              </select>
+            )}
+
+            {chosen && (
+              <>
+                <label className="brightness-label">
+                  Apply "{chosen.name}" ({Object.keys(chosen.entities).length} entities) to
+                </label>
+                <div className="sampling-mode">
+                  <button
+                    className={`preset-btn ${target === 'original' ? 'active' : ''}`}
+                    onClick={() => setTarget('original')}
+                  >
+                    Its own lights
+                  </button>
+                  <button
+                    className={`preset-btn ${target === 'current' ? 'active' : ''}`}
+                    onClick={() => setTarget('current')}
+                  >
+                    Selected lights
+                  </button>
+                </div>
+                <div className="calibration-actions">
+                  <button onClick={() => onImport(chosen, target)}>Open in editor</button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        {error && <p className="empty-note error-note">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
+export default SceneFileDialog
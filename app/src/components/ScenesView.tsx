@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import type { StoredScene } from '../sceneStore'
+
+interface ScenesViewProps {
+  // null while loading
+  scenes: StoredScene[] | null
+  onOpen: (scene: StoredScene) => void
+  onActivate: (scene: StoredScene) => void
+  onRename: (scene: StoredScene, name: string) => void
+  onDuplicate: (scene: StoredScene) => void
+  onDelete: (scene: StoredScene) => void
+  onRefresh: () => void
+}
+
+function ScenesView({ scenes, onOpen, onActivate, onRename, onDuplicate, onDelete, onRefresh }: ScenesViewProps) {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
+
+  const submitRename = (scene: StoredScene) => {
+    const name = renaming?.name.trim()
+    setRenaming(null)
+    if (name && name !== scene.config.name) onRename(scene, name)
+  }
+
+  return (
+    <div className="section">
+      <div className="section-header">
+        <label>Scene Library</label>
+        <button className="link-btn" onClick={onRefresh} disabled={scenes === null}>
+          Refresh
+        </button>
+      </div>
+
+      {scenes === null ? (
+        <p className="empty-note">Loading scenes...</p>
+      ) : scenes.length === 0 ? (
+        <p className="empty-note">No scenes created with this tool yet.</p>
+      ) : (
+        <div className="scene-list">
+          {scenes.map(scene => (
+            <div key={scene.config.id} className="scene-row">
+              <img className="scene-thumb" src={scene.generator.image} alt="" />
+              <div className="scene-info">
+                {renaming?.id === scene.config.id ? (
+                  <input
+                    type="text"
+                    autoFocus
+                    value={renaming.name}
+                    onChange={e => setRenaming({ id: scene.config.id, name: e.target.value })}
+                    onBlur={() => submitRename(scene)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') submitRename(scene)
+                      if (e.key === 'Escape') setRenaming(null)
+                    }}
+                  />
+                ) : (
+                  <span className="scene-name">{scene.config.name}</span>
+                )}
+                <span className="scene-entity">{scene.entity_id}</span>
+                <div className="scene-colors">
+                  {scene.generator.samples.map(m => (
+                    <span
+                      key={m.entity_id}
+                      className="scene-color"
+                      style={{ backgroundColor: `rgb(${m.color.join(',')})` }}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="scene-actions">
+                <button className="link-btn" onClick={() => onActivate(scene)}>Activate</button>
+                <button className="link-btn" onClick={() => onOpen(scene)}>Edit</button>
+                <button
+                  className="link-btn"
+                  onClick={() => setRenaming({ id: scene.config.id, name: scene.config.name })}
+                >
+                  Rename
+                </button>
+                <button className="link-btn" onClick={() => onDuplicate(scene)}>Duplicate</button>
+                {confirmDelete === scene.config.id ? (
+                  <button
+                    className="link-btn danger"
+                    onClick={() => {
+                      setConfirmDelete(null)
+                      onDelete(scene)
+                    }}
+                    onBlur={() => setConfirmDelete(null)}
+                  >
+                    Confirm delete
+                  </button>
+                ) : (
+                  <button className="link-btn" onClick={() => setConfirmDelete(scene.config.id)}>
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ScenesView
@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import {
+  describeTrigger,
+  WEEKDAYS,
+  type ScheduleOptions,
+  type ScheduleTrigger,
+  type Weekday
+} from '../automationStore'
+import { DAY_CYCLE_SLOTS, type DayCycleSlot } from '../dayCycle'
+
+interface ScheduleDialogProps {
+  // Saved scene to schedule, or null when only a day cycle can be set up
+  scene: { name: string; entityId: string } | null
+  onSchedule: (trigger: ScheduleTrigger, options: ScheduleOptions) => Promise<void>
+  onScheduleDayCycle: (slots: DayCycleSlot[], options: ScheduleOptions) => Promise<void>
+  onClose: () => void
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Mon',
+  tue: 'Tue',
+  wed: 'Wed',
+  thu: 'Thu',
+  fri: 'Fri',
+  sat: 'Sat',
+  sun: 'Sun'
+}
+
+const DEFAULT_TRIGGER: ScheduleTrigger = { kind: 'sun', event: 'sunset', offsetMinutes: 0 }
+const MAX_OFFSET_MINUTES = 120
+const MAX_TRANSITION_SECONDS = 300
+
+interface TriggerFieldsProps {
+  trigger: ScheduleTrigger
+  onChange: (trigger: ScheduleTrigger) => void
+}
+
+// Clock time, or sunrise/sunset with an offset
+function TriggerFields({ trigger, onChange }: TriggerFieldsProps) {
+  const choice = trigger.kind === 'time' ? 'time' : trigger.event
+  const offset = trigger.kind === 'sun' ? trigger.offsetMinutes : 0
+
+  return (
+    <>
+      <div className="sampling-mode">
+        <button
+          className={`preset-btn ${choice === 'time' ? 'active' : ''}`}
+          onClick={() => onChange({ kind: 'time', at: trigger.kind === 'time' ? trigger.at : '18:00' })}
+        >
+          At a time
+        </button>
+        {(['sunrise', 'sunset'] as const).map(event => (
+          <button
+            key={event}
+            className={`preset-btn ${choice === event ? 'active' : ''}`}
+            onClick={() => onChange({ kind: 'sun', event, offsetMinutes: offset })}
+          >
+            {event === 'sunrise' ? 'Sunrise' : 'Sunset'}
+          </button>
+        ))}
+      </div>
+      {trigger.kind === 'time' ? (
+        <input
+          type="time"
+          value={trigger.at}
+          onChange={e => e.target.value && onChange({ ...trigger, at: e.target.value })}
+        />
+      ) : (
+        <>
+          <label className="brightness-label">Runs {describeTrigger(trigger)}</label>
+          <input
+            type="range"
+            className="brightness-slider"
+            min={-MAX_OFFSET_MINUTES}
+            max={MAX_OFFSET_MINUTES}
+            step="5"
+            value={trigger.offsetMinutes}
+            onChange={e => onChange({ ...trigger, offsetMinutes: Number(e.target.value) })}
+          />
+        </>
+      )}
+    </>
+  )
+}
+
+function ScheduleDialog({ scene, onSchedule, onScheduleDayCycle, onClose }: ScheduleDialogProps) {
+  const [tab, setTab] = useState<'scene' | 'cycle'>(scene ? 'scene' : 'cycle')
+  const [trigger, setTrigger] = useState<ScheduleTrigger>(DEFAULT_TRIGGER)
+  const [slots, setSlots] = useState(() => DAY_CYCLE_SLOTS.map(slot => ({ slot, enabled: true })))
+  const [weekdays, setWeekdays] = useState<Weekday[]>([])
+  const [transition, setTransition] = useState(0)
+  const [onlyWhenHome, setOnlyWhenHome] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const chosenSlots = slots.filter(s => s.enabled).map(s => s.slot)
+
+  const updateSlot = (key: string, changes: Partial<DayCycleSlot>) => {
+    setSlots(prev => prev.map(s => s.slot.key === key ? { ...s, slot: { ...s.slot, ...changes } } : s))
+  }
+
+  const toggleWeekday = (day: Weekday) => {
+    setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day])
+  }
+
+  // The dialog is closed by the caller once saving is done
+  const save = () => {
+    const options: ScheduleOptions = { weekdays, transition, onlyWhenHome }
+    setSaving(true)
+    if (tab === 'scene') onSchedule(trigger, options)
+    else onScheduleDayCycle(chosenSlots, options)
+  }
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="section-header">
+          <div className="sampling-mode">
+            <button
+              className={`preset-btn ${tab === 'scene' ? 'active' : ''}`}
+              onClick={() => setTab('scene')}
+              disabled={!scene}
+            >
+              This scene
+            </button>
+            <button
+              className={`preset-btn ${tab === 'cycle' ? 'active' : ''}`}
+              onClick={() => setTab('cycle')}
+            >
+              Day cycle
+            </button>
+          </div>
+          <button className="link-btn" onClick={onClose}>Close</button>
+        </div>
+
+        {tab === 'scene' && scene ? (
+          <>
+            <p className="empty-note">
+              Saves an automation that turns on "{scene.name}" ({scene.entityId}).
+            </p>
+            <TriggerFields trigger={trigger} onChange={setTrigger} />
+          </>
+        ) : (
+          <>
+            <p className="empty-note">
+              Saves a scene for each time of day, colored from a band of the image: the top
+              for midday, the bottom for night. Scenes or schedules that exist already are
+              asked about before they're overwritten.
+            </p>
+            {slots.map(({ slot, enabled }) => (
+              <div key={slot.key} className="schedule-slot">
+                <label className="light-item toggle-item">
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={e => setSlots(prev => prev.map(s =>
+                      s.slot.key === slot.key ? { ...s, enabled: e.target.checked } : s
+                    ))}
+                  />
+                  <span className="light-name">{slot.label}</span>
+                  <span className="light-kind">
+                    {Math.round(slot.band[0] * 100)}–{Math.round(slot.band[1] * 100)}% down the image
+                  </span>
+                </label>
+                {enabled && (
+                  <TriggerFields trigger={slot.trigger} onChange={t => updateSlot(slot.key, { trigger: t })} />
+                )}
+              </div>
+            ))}
+          </>
+        )}
+
+        <label className="brightness-label">Days{weekdays.length === 0 ? ' (every day)' : ''}</label>
+        <div className="sampling-mode">
+          {WEEKDAYS.map(day => (
+            <button
+              key={day}
+              className={`preset-btn ${weekdays.includes(day) ? 'active' : ''}`}
+              onClick={() => toggleWeekday(day)}
+            >
+              {WEEKDAY_LABELS[day]}
+            </button>
+          ))}
+        </div>
+
+        <label className="brightness-label">Fade In ({transition > 0 ? `${transition}s` : 'instant'})</label>
+        <input
+          type="range"
+          className="brightness-slider"
+          min="0"
+          max={MAX_TRANSITION_SECONDS}
+          step="5"
+          value={transition}
+          onChange={e => setTransition(Number(e.target.value))}
+        />
+
+        <label className="light-item toggle-item">
+          <input
+            type="checkbox"
+            checked={onlyWhenHome}
+            onChange={e => setOnlyWhenHome(e.target.checked)}
+          />
+          <span className="light-name">Only when someone is home</span>
+        </label>
+
+        <div className="calibration-actions">
+          <button onClick={save} disabled={saving || (tab === 'cycle' && chosenSlots.length === 0)}>
+            {saving
+              ? 'Saving…'
+              : tab === 'scene' ? 'Save schedule' : `Save ${chosenSlots.length} scenes and schedules`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ScheduleDialog
@@ -0,0 +1,61 @@
+import { getEntityArea } from '../lights'
+import type { Area, DeviceRegistryEntry, EntityRegistryEntry, HAState } from '../types'
+
+interface SimulatedLightsProps {
+  areas: Area[]
+  states: Map<string, HAState>
+  entities: EntityRegistryEntry[]
+  devices: DeviceRegistryEntry[]
+}
+
+// On-screen color of a light: its reported color at its brightness, dark when off
+function getBulbColor(state: HAState): string {
+  if (state.state !== 'on') return '#1e293b'
+  const rgb = state.attributes.rgb_color
+  const [r, g, b] = Array.isArray(rgb) ? rgb.map(Number) : [255, 214, 170]
+  const level = Number(state.attributes.brightness ?? 255) / 255
+  // Dimmed bulbs fade towards the off color rather than to black, so they stay visible
+  const mix = (c: number, off: number) => Math.round(off + (c - off) * (0.25 + 0.75 * level))
+  return `rgb(${mix(r, 30)},${mix(g, 41)},${mix(b, 59)})`
+}
+
+// The demo's simulated bulbs by area, showing what scenes and previews did to them.
+// Groups are left out; their bulbs show the result.
+function SimulatedLights({ areas, states, entities, devices }: SimulatedLightsProps) {
+  const bulbs = [...states.values()].filter(s => !Array.isArray(s.attributes.entity_id))
+
+  return (
+    <div className="section simulated-lights">
+      <div className="editing-banner">
+        <span>Demo mode: a simulated Home Assistant. Nothing is kept: leaving the demo or reloading starts over.</span>
+      </div>
+      <div className="simulated-areas">
+        {areas.map(area => {
+          const areaBulbs = bulbs.filter(s => getEntityArea(s.entity_id, entities, devices) === area.id)
+          if (areaBulbs.length === 0) return null
+          return (
+            <div key={area.id} className="simulated-area">
+              <span className="simulated-area-name">{area.name}</span>
+              <div className="simulated-bulbs">
+                {areaBulbs.map(s => {
+                  const color = getBulbColor(s)
+                  return (
+                    <div key={s.entity_id} className="simulated-bulb" title={`${s.attributes.friendly_name ?? s.entity_id}: ${s.state}`}>
+                      <span
+                        className={`bulb-glow ${s.state === 'on' ? 'on' : ''}`}
+                        style={{ background: color, boxShadow: s.state === 'on' ? `0 0 14px 2px ${color}` : 'none' }}
+                      />
+                      <span className="bulb-name">{s.attributes.friendly_name ?? s.entity_id}</span>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default SimulatedLights
@@ -0,0 +1,92 @@
+// Connection profiles: which Home Assistant instance the app talks to. Each profile
+// keeps its own login, token, area selection and settings keyed by entity id; the
+// instances themselves are configured on the server, which proxies to them under
+// /ha/<instance id>/.
+
+const STORAGE_KEY = 'ha-connections'
+const ACTIVE_KEY = 'ha-connection'
+export const DEFAULT_CONNECTION_ID = 'default'
+// Everything stored through profileKey()
+const PROFILE_STORAGE_KEYS = [
+  'ha-token',
+  'ha-auth',
+  'ha-url',
+  'ha-areas',
+  'ha-layouts',
+  'ha-color-modes',
+  'ha-group-modes',
+  'ha-profile-lights'
+]
+
+// A Home Assistant instance the server proxies to
+export interface HAInstanceInfo {
+  id: string
+  name: string
+  // Where the instance's own login page is
+  loginUrl: string
+}
+
+export interface ConnectionProfile {
+  id: string
+  name: string
+  // Server instance id; empty for the server's default instance on the unprefixed proxy paths
+  instance: string
+}
+
+export const DEFAULT_CONNECTION: ConnectionProfile = { id: DEFAULT_CONNECTION_ID, name: 'Default', instance: '' }
+
+export function loadConnections(): ConnectionProfile[] {
+  const stored: ConnectionProfile[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+  const storedDefault = stored.find(c => c.id === DEFAULT_CONNECTION_ID)
+  return [{ ...DEFAULT_CONNECTION, ...storedDefault }, ...stored.filter(c => c.id !== DEFAULT_CONNECTION_ID)]
+}
+
+export function saveConnections(connections: ConnectionProfile[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(connections))
+}
+
+// Read once per page load; switching profiles reloads the page so nothing is left
+// connected to the previous instance
+const activeConnection: ConnectionProfile = (() => {
+  const id = localStorage.getItem(ACTIVE_KEY)
+  return loadConnections().find(c => c.id === id) ?? loadConnections()[0]
+})()
+
+export function getActiveConnection(): ConnectionProfile {
+  return activeConnection
+}
+
+export function switchConnection(id: string) {
+  localStorage.setItem(ACTIVE_KEY, id)
+  window.location.reload()
+}
+
+// Storage key scoped to the active profile. The default profile keeps the plain key,
+// so logins saved before profiles existed still work.
+export function profileKey(key: string): string {
+  return activeConnection.id === DEFAULT_CONNECTION_ID ? key : `${key}@${activeConnection.id}`
+}
+
+// Drop everything a deleted profile stored
+export function clearProfileData(id: string) {
+  if (id === DEFAULT_CONNECTION_ID) return
+  for (const key of PROFILE_STORAGE_KEYS) localStorage.removeItem(`${key}@${id}`)
+}
+
+// Same-origin path of a proxied HA endpoint for the active profile
+export function getProxyPath(kind: 'api' | 'auth' | 'ws'): string {
+  return activeConnection.instance ? `/ha/${activeConnection.instance}/${kind}` : `/ha-${kind}`
+}
+
+// Instances the server proxies to. Empty when served without the app server
+// (e.g. a plain static host with its own proxy), where only the default profile works.
+export async function fetchInstances(): Promise<HAInstanceInfo[]> {
+  try {
+    const resp = await fetch('/ha-instances')
+    if (!resp.ok) return []
+    const instances = await resp.json()
+    return Array.isArray(instances) ? instances : []
+  } catch {
+    return []
+  }
+}
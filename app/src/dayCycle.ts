@@ -0,0 +1,35 @@
+import type { ScheduleTrigger } from './automationStore'
+import type { SamplePoint } from './types'
+
+// One scene of a day cycle: when it comes on, and the horizontal band of the image
+// its colors are taken from, as fractions of the image height
+export interface DayCycleSlot {
+  key: string
+  label: string
+  trigger: ScheduleTrigger
+  band: [number, number]
+}
+
+// The top of the image lights midday and the bottom the night, with morning and
+// evening in between, so a sky-to-ground picture follows the day
+export const DAY_CYCLE_SLOTS: DayCycleSlot[] = [
+  { key: 'morning', label: 'Morning', trigger: { kind: 'sun', event: 'sunrise', offsetMinutes: 0 }, band: [0.25, 0.5] },
+  { key: 'midday', label: 'Midday', trigger: { kind: 'time', at: '12:00' }, band: [0, 0.25] },
+  { key: 'evening', label: 'Evening', trigger: { kind: 'sun', event: 'sunset', offsetMinutes: -30 }, band: [0.5, 0.75] },
+  { key: 'night', label: 'Night', trigger: { kind: 'time', at: '22:30' }, band: [0.75, 1] }
+]
+
+// Samples squeezed into the band, keeping their horizontal spots and relative
+// heights, and recolored from the image there
+export function getBandSamples(
+  samples: SamplePoint[],
+  band: [number, number],
+  getColor: (x: number, y: number) => [number, number, number]
+): SamplePoint[] {
+  const [top, bottom] = band
+  return samples.map(s => {
+    const y = top + s.y * (bottom - top)
+    const [r, g, b] = getColor(s.x, y)
+    return { ...s, y, r, g, b }
+  })
+}
@@ -0,0 +1,62 @@
+import { setFetchHandler } from './ha'
+import { setSocketFactory } from './haSocket'
+import { createSimulator, type HASimulator, type SimulatorSession } from './haSimulator'
+
+// Any token works with the simulator; this one marks the demo in the UI
+export const DEMO_TOKEN = 'demo'
+// Replies are delayed a little, like over a network, so the app never sees them synchronously
+const DEMO_LATENCY_MS = 20
+
+// Just enough of a WebSocket for haSocket.ts, talking to the simulator
+class SimulatedSocket {
+  readyState: number = WebSocket.CONNECTING
+  onmessage: ((event: { data: string }) => void) | null = null
+  onerror: (() => void) | null = null
+  onclose: (() => void) | null = null
+  private session: SimulatorSession
+
+  constructor(simulator: HASimulator) {
+    this.readyState = WebSocket.OPEN
+    this.session = simulator.connect(message => {
+      setTimeout(() => {
+        if (this.readyState === WebSocket.OPEN) this.onmessage?.({ data: JSON.stringify(message) })
+      }, DEMO_LATENCY_MS)
+    })
+  }
+
+  send(data: string) {
+    setTimeout(() => this.session.receive(JSON.parse(data)), DEMO_LATENCY_MS)
+  }
+
+  close() {
+    if (this.readyState === WebSocket.CLOSED) return
+    this.readyState = WebSocket.CLOSED
+    this.session.close()
+    setTimeout(() => this.onclose?.(), 0)
+  }
+}
+
+// Route all Home Assistant traffic to a fresh simulated instance, until stopDemo()
+export function startDemo(): HASimulator {
+  const simulator = createSimulator()
+  setFetchHandler(async (url, init) => {
+    await new Promise(resolve => setTimeout(resolve, DEMO_LATENCY_MS))
+    const headers = new Headers(init.headers)
+    const { status, body } = simulator.handleRequest(
+      init.method ?? 'GET',
+      url.replace(/^\/ha-api|^\/ha\/[^/]+\/api/, ''),
+      typeof init.body === 'string' ? init.body : null,
+      headers.get('Authorization')
+    )
+    return typeof body === 'string'
+      ? new Response(body, { status, headers: { 'Content-Type': 'text/plain' } })
+      : new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+  })
+  setSocketFactory(() => new SimulatedSocket(simulator) as unknown as WebSocket)
+  return simulator
+}
+
+export function stopDemo() {
+  setFetchHandler(null)
+  setSocketFactory(null)
+}
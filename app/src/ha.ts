@@ -0,0 +1,178 @@
+import { getProxyPath } from './connections'
+import type { HAState } from './types'
+
+// Waiting longer than this for Home Assistant counts as a timeout
+const REQUEST_TIMEOUT_MS = 15000
+// Pauses before retrying a read that failed on the way to Home Assistant
+const RETRY_DELAYS_MS = [500, 1500]
+
+// Why a request failed, so the UI can say what to do about it:
+// - auth: the token was rejected (expired, revoked or mistyped)
+// - permission: the token is fine but the user may not do this (non-admin on config APIs)
+// - not_found: no such scene, script or entity
+// - unreachable: no answer from Home Assistant, or from the app server in front of it
+// - proxy: something other than Home Assistant answered, e.g. a static host without the proxy
+// - timeout: Home Assistant took too long
+// - request: Home Assistant refused the request for another reason
+export type HAErrorKind = 'auth' | 'permission' | 'not_found' | 'unreachable' | 'proxy' | 'timeout' | 'request'
+
+const ERROR_MESSAGES: Record<HAErrorKind, string> = {
+  auth: 'Home Assistant no longer accepts this login. Log in again.',
+  permission: 'This Home Assistant user is not allowed to do that. Saving scenes and scripts needs an administrator account.',
+  not_found: 'Not found in Home Assistant.',
+  unreachable: "Home Assistant can't be reached. Check that it is running and that the server points at the right address (HA_URL).",
+  proxy: "Something other than Home Assistant answered. Check that the server proxies /ha-api, /ha-auth and /ha-ws to Home Assistant (HA_URL).",
+  timeout: 'Home Assistant took too long to answer. Try again.',
+  request: 'Home Assistant refused the request.'
+}
+
+export class HAApiError extends Error {
+  kind: HAErrorKind
+  // HTTP status; 0 when no response arrived
+  status: number
+
+  constructor(kind: HAErrorKind, status = 0, detail?: string) {
+    super(detail ? `${ERROR_MESSAGES[kind]} (${detail})` : ERROR_MESSAGES[kind])
+    this.name = 'HAApiError'
+    this.kind = kind
+    this.status = status
+  }
+}
+
+// Resolves to a new access token after a 401, or null when there is no way to get one
+type TokenRefresher = () => Promise<string | null>
+
+let tokenRefresher: TokenRefresher | null = null
+
+export function setTokenRefresher(refresher: TokenRefresher | null) {
+  tokenRefresher = refresher
+}
+
+// Told when the login is rejected for good, so the user can be asked to log in again
+let authFailureHandler: (() => void) | null = null
+
+export function setAuthFailureHandler(handler: (() => void) | null) {
+  authFailureHandler = handler
+}
+
+export function reportAuthFailure() {
+  authFailureHandler?.()
+}
+
+// Sends the requests; replaced by the simulated Home Assistant in demo mode
+type FetchHandler = (url: string, init: RequestInit) => Promise<Response>
+
+const networkFetch: FetchHandler = (url, init) => fetch(url, init)
+let fetchHandler = networkFetch
+
+export function setFetchHandler(handler: FetchHandler | null) {
+  fetchHandler = handler ?? networkFetch
+}
+
+// Home Assistant's own error text, when it sent one
+async function readErrorDetail(resp: Response): Promise<string | undefined> {
+  const text = await resp.text().catch(() => '')
+  try {
+    return JSON.parse(text).message || undefined
+  } catch {
+    return text.trim().slice(0, 200) || undefined
+  }
+}
+
+// Errors the app server produced itself are marked with X-HA-Proxy-Error; the rest are HA's
+async function classifyResponse(resp: Response): Promise<HAApiError> {
+  const proxyError = resp.headers.get('X-HA-Proxy-Error')
+  if (proxyError === 'unreachable') return new HAApiError('unreachable', resp.status)
+  if (proxyError) return new HAApiError('proxy', resp.status, await readErrorDetail(resp))
+  // Static hosts answer unknown paths with the app's own page
+  if (resp.headers.get('Content-Type')?.includes('text/html')) return new HAApiError('proxy', resp.status)
+
+  switch (resp.status) {
+    case 401: return new HAApiError('auth', 401)
+    case 403: return new HAApiError('permission', 403)
+    case 404: return new HAApiError('not_found', 404, await readErrorDetail(resp))
+    case 502:
+    case 503: return new HAApiError('unreachable', resp.status)
+    case 504: return new HAApiError('timeout', 504)
+    default: return new HAApiError('request', resp.status, `${resp.status}: ${await readErrorDetail(resp) ?? resp.statusText}`)
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// One attempt with a timeout. The caller's abort signal, if any, is passed through
+// unchanged, so aborted requests still reject with an AbortError.
+async function sendOnce(url: string, token: string, options: RequestInit): Promise<Response> {
+  options.signal?.throwIfAborted()
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+  const abort = () => controller.abort()
+  options.signal?.addEventListener('abort', abort)
+  try {
+    return await fetchHandler(url, {
+      ...options,
+      signal: controller.signal,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        ...options.headers
+      }
+    })
+  } catch (e) {
+    if (options.signal?.aborted) throw e
+    if (controller.signal.aborted) throw new HAApiError('timeout')
+    throw new HAApiError('unreachable', 0, 'no answer from the app server')
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', abort)
+  }
+}
+
+// Send a request, refreshing an expired token once. Reads (GET) that fail on the
+// way to Home Assistant are retried a couple of times, since repeating them is harmless.
+export async function haFetch<T = unknown>(endpoint: string, token: string, options: RequestInit = {}): Promise<T> {
+  const url = `${getProxyPath('api')}${endpoint}`
+  const idempotent = (options.method ?? 'GET') === 'GET'
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      let resp = await sendOnce(url, token, options)
+      // An expired access token is refreshed and the request tried once more
+      if (resp.status === 401 && tokenRefresher) {
+        const refreshed = await tokenRefresher()
+        if (refreshed) {
+          token = refreshed
+          resp = await sendOnce(url, token, options)
+        }
+      }
+      if (resp.ok && !resp.headers.get('Content-Type')?.includes('text/html')) return await resp.json()
+
+      const error = await classifyResponse(resp)
+      // Non-admin users get a 401 from the config APIs too; a token that still reads
+      // the API root is valid, so it's a matter of permission
+      if (error.kind === 'auth' && endpoint.startsWith('/config/')) {
+        const probe = await sendOnce(`${getProxyPath('api')}/`, token, {}).catch(() => null)
+        if (probe?.ok) throw new HAApiError('permission', 401)
+      }
+      if (error.kind === 'auth') reportAuthFailure()
+      throw error
+    } catch (e) {
+      const retryable = e instanceof HAApiError && (e.kind === 'unreachable' || e.kind === 'timeout')
+      if (!idempotent || !retryable || attempt >= RETRY_DELAYS_MS.length) throw e
+      await wait(RETRY_DELAYS_MS[attempt])
+    }
+  }
+}
+
+export function getStates(token: string): Promise<HAState[]> {
+  return haFetch<HAState[]>('/states', token)
+}
+
+// Call a Home Assistant service via the REST API; resolves to the states it changed
+export function callService(domain: string, service: string, data: object, token: string, options: RequestInit = {}) {
+  return haFetch<HAState[]>(`/services/${domain}/${service}`, token, {
+    ...options,
+    method: 'POST',
+    body: JSON.stringify(data)
+  })
+}
@@ -0,0 +1,506 @@
+// A simulated Home Assistant: the REST and WebSocket API subset this app uses, over a
+// configurable set of areas and lights that change color when scenes and services
+// run. Backs the in-browser demo mode and the standalone mock server (server/mock.ts),
+// so it stays free of browser and Node APIs; imports carry .js extensions for Node.
+import { hsToRgb, kelvinToRgb, rgbToHs, rgbToXy, xyToRgb } from './color.js'
+import type { AreaRegistryEntry, DeviceRegistryEntry, EntityRegistryEntry, HAState } from './types.js'
+
+export interface SimulatedLightSetup {
+  // Object id; the entity is light.<id>
+  id: string
+  name: string
+  // HA color modes, e.g. ['xy', 'color_temp'], ['rgbww'] or ['brightness']
+  colorModes: string[]
+  manufacturer?: string
+  model?: string
+  minKelvin?: number
+  maxKelvin?: number
+  // Object ids of member lights, which makes this an HA light group
+  members?: string[]
+}
+
+export interface SimulatedAreaSetup {
+  id: string
+  name: string
+  lights: SimulatedLightSetup[]
+}
+
+export interface SimulatorSetup {
+  areas: SimulatedAreaSetup[]
+  // Only this access token is accepted when set; otherwise any non-empty token is
+  token?: string
+}
+
+export interface SimulatorResponse {
+  status: number
+  // Strings are sent as text, anything else as JSON
+  body: unknown
+}
+
+// One WebSocket client. `send` delivers messages to the client; `receive` takes the client's.
+export interface SimulatorSession {
+  receive(message: Record<string, unknown>): void
+  close(): void
+}
+
+export interface HASimulator {
+  handleRequest(method: string, path: string, body: string | null, authorization: string | null): SimulatorResponse
+  connect(send: (message: object) => void): SimulatorSession
+  // Back to the initial setup: lights off, no scenes, scripts or automations
+  reset(): void
+}
+
+const DEFAULT_MIN_KELVIN = 2000
+const DEFAULT_MAX_KELVIN = 6500
+const COLOR_MODES = ['rgb', 'rgbw', 'rgbww', 'hs', 'xy']
+const INITIAL_KELVIN = 2700
+
+export const DEFAULT_SETUP: SimulatorSetup = {
+  areas: [
+    {
+      id: 'living_room',
+      name: 'Living Room',
+      lights: [
+        { id: 'sofa_lamp', name: 'Sofa Lamp', colorModes: ['xy', 'color_temp'], manufacturer: 'Signify', model: 'Hue color lamp' },
+        { id: 'floor_lamp', name: 'Floor Lamp', colorModes: ['xy', 'color_temp'], manufacturer: 'Signify', model: 'Hue Go' },
+        { id: 'tv_strip', name: 'TV Strip', colorModes: ['rgb'], manufacturer: 'WLED', model: 'ESP32' },
+        { id: 'ceiling', name: 'Ceiling', colorModes: ['color_temp'], manufacturer: 'IKEA', model: 'TRADFRI bulb' }
+      ]
+    },
+    {
+      id: 'bedroom',
+      name: 'Bedroom',
+      lights: [
+        { id: 'bedside_left', name: 'Bedside Left', colorModes: ['hs', 'color_temp'], manufacturer: 'LIFX', model: 'A19' },
+        { id: 'bedside_right', name: 'Bedside Right', colorModes: ['hs', 'color_temp'], manufacturer: 'LIFX', model: 'A19' },
+        { id: 'headboard', name: 'Headboard', colorModes: ['rgbww'], manufacturer: 'Shelly', model: 'RGBW2' }
+      ]
+    },
+    {
+      id: 'kitchen',
+      name: 'Kitchen',
+      lights: [
+        { id: 'cabinet_left', name: 'Cabinet Left', colorModes: ['rgbw'], manufacturer: 'Gledopto', model: 'GL-C-007' },
+        { id: 'cabinet_right', name: 'Cabinet Right', colorModes: ['rgbw'], manufacturer: 'Gledopto', model: 'GL-C-007' },
+        { id: 'cabinets', name: 'Cabinets', colorModes: ['rgbw'], members: ['cabinet_left', 'cabinet_right'] },
+        { id: 'pendant', name: 'Pendant', colorModes: ['brightness'], manufacturer: 'IKEA', model: 'TRADFRI dimmer' }
+      ]
+    }
+  ]
+}
+
+// What a simulated light shows; HA reports the same state in every color space
+interface LightOutput {
+  on: boolean
+  brightness: number
+  rgb: [number, number, number]
+  colorMode: string
+  kelvin: number | null
+}
+
+interface SimulatedLight {
+  setup: SimulatedLightSetup
+  areaId: string
+  output: LightOutput
+}
+
+// Config stores the simulator keeps, by the config API path they're under
+type ConfigKind = 'scene' | 'script' | 'automation'
+
+const clampByte = (v: number) => Math.round(Math.min(255, Math.max(0, v)))
+const toList = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : value ? [String(value)] : []
+
+export function createSimulator(setup: SimulatorSetup = DEFAULT_SETUP): HASimulator {
+  const lights = new Map<string, SimulatedLight>()
+  // Other states (scenes, scripts, automations), keyed by entity id
+  const others = new Map<string, HAState>()
+  const configs: Record<ConfigKind, Map<string, Record<string, unknown>>> = {
+    scene: new Map(),
+    script: new Map(),
+    automation: new Map()
+  }
+  // Registry entries that have been changed, lights as well as scenes and scripts
+  const registryEdits = new Map<string, EntityRegistryEntry>()
+  const sessions = new Set<{ send: (message: object) => void; subscriptions: Map<number, string> }>()
+
+  const reset = () => {
+    lights.clear()
+    others.clear()
+    Object.values(configs).forEach(store => store.clear())
+    registryEdits.clear()
+    for (const area of setup.areas) {
+      for (const light of area.lights) {
+        // Lights start off, set to warm white where they can be
+        const kelvin = light.colorModes.includes('color_temp') ? INITIAL_KELVIN : null
+        lights.set(`light.${light.id}`, {
+          setup: light,
+          areaId: area.id,
+          output: {
+            on: false,
+            brightness: 255,
+            rgb: kelvinToRgb(INITIAL_KELVIN),
+            colorMode: kelvin ? 'color_temp' : light.colorModes[0] ?? 'onoff',
+            kelvin
+          }
+        })
+      }
+    }
+  }
+  reset()
+
+  const lightState = (entityId: string, { setup: light, output }: SimulatedLight): HAState => {
+    const minKelvin = light.minKelvin ?? DEFAULT_MIN_KELVIN
+    const maxKelvin = light.maxKelvin ?? DEFAULT_MAX_KELVIN
+    const hasColor = light.colorModes.some(m => COLOR_MODES.includes(m))
+    const on = output.on
+    return {
+      entity_id: entityId,
+      state: on ? 'on' : 'off',
+      attributes: {
+        friendly_name: light.name,
+        supported_color_modes: light.colorModes,
+        ...(light.colorModes.includes('color_temp') && { min_color_temp_kelvin: minKelvin, max_color_temp_kelvin: maxKelvin }),
+        ...(light.members && { entity_id: light.members.map(id => `light.${id}`) }),
+        color_mode: on ? output.colorMode : null,
+        brightness: on ? output.brightness : null,
+        color_temp_kelvin: on ? output.kelvin : null,
+        rgb_color: on && (hasColor || output.kelvin !== null) ? output.rgb : null,
+        hs_color: on && hasColor ? rgbToHs(...output.rgb) : null,
+        xy_color: on && hasColor ? rgbToXy(...output.rgb) : null
+      }
+    }
+  }
+
+  const getState = (entityId: string): HAState | undefined => {
+    const light = lights.get(entityId)
+    return light ? lightState(entityId, light) : others.get(entityId)
+  }
+
+  const allStates = () => [
+    ...[...lights].map(([id, light]) => lightState(id, light)),
+    ...others.values()
+  ]
+
+  const broadcast = (eventType: string, data: unknown) => {
+    const event = { event_type: eventType, data, origin: 'LOCAL', time_fired: new Date().toISOString() }
+    for (const session of sessions) {
+      for (const [id, type] of session.subscriptions) {
+        if (type === eventType) session.send({ id, type: 'event', event })
+      }
+    }
+  }
+
+  // Run `change` and report every state it altered as a state_changed event
+  const track = (entityIds: string[], change: () => void): HAState[] => {
+    const before = new Map(entityIds.map(id => [id, getState(id)]))
+    change()
+    return entityIds.flatMap(id => {
+      const oldState = before.get(id) ?? null
+      const newState = getState(id) ?? null
+      if (JSON.stringify(oldState) === JSON.stringify(newState)) return []
+      broadcast('state_changed', { entity_id: id, old_state: oldState, new_state: newState })
+      return newState ? [newState] : []
+    })
+  }
+
+  // Groups pass their commands on to their members
+  const expandGroups = (entityIds: string[]): string[] => entityIds.flatMap(id => {
+    const members = lights.get(id)?.setup.members
+    return members ? [id, ...expandGroups(members.map(m => `light.${m}`))] : [id]
+  })
+
+  // light.turn_on data, or a scene's entity state: the color attribute sets the mode,
+  // and a light that can't show it takes the nearest thing it can
+  const setLight = (light: SimulatedLight, on: boolean, data: Record<string, unknown>) => {
+    const { output, setup: lightSetup } = light
+    output.on = on
+    if (!on) return
+    if (typeof data.brightness === 'number') output.brightness = clampByte(data.brightness)
+    if (typeof data.brightness_pct === 'number') output.brightness = clampByte(data.brightness_pct * 2.55)
+
+    let rgb: [number, number, number] | null = null
+    let mode: string | null = null
+    if (Array.isArray(data.rgb_color)) {
+      rgb = data.rgb_color.map(Number) as [number, number, number]
+      mode = 'rgb'
+    } else if (Array.isArray(data.rgbw_color)) {
+      const [r, g, b, w] = data.rgbw_color.map(Number)
+      rgb = [clampByte(r + w), clampByte(g + w), clampByte(b + w)]
+      mode = 'rgbw'
+    } else if (Array.isArray(data.rgbww_color)) {
+      const [r, g, b, cw, ww] = data.rgbww_color.map(Number)
+      rgb = [clampByte(r + cw + ww), clampByte(g + cw + ww * 0.8), clampByte(b + cw + ww * 0.55)]
+      mode = 'rgbww'
+    } else if (Array.isArray(data.hs_color)) {
+      rgb = hsToRgb(Number(data.hs_color[0]), Number(data.hs_color[1]))
+      mode = 'hs'
+    } else if (Array.isArray(data.xy_color)) {
+      rgb = xyToRgb(Number(data.xy_color[0]), Number(data.xy_color[1]))
+      mode = 'xy'
+    }
+
+    const modes = lightSetup.colorModes
+    const colorMode = modes.find(m => COLOR_MODES.includes(m))
+    if (typeof data.color_temp_kelvin === 'number' && modes.includes('color_temp')) {
+      const min = lightSetup.minKelvin ?? DEFAULT_MIN_KELVIN
+      const max = lightSetup.maxKelvin ?? DEFAULT_MAX_KELVIN
+      output.kelvin = Math.round(Math.min(max, Math.max(min, data.color_temp_kelvin)))
+      output.rgb = kelvinToRgb(output.kelvin)
+      output.colorMode = 'color_temp'
+    } else if (rgb && colorMode) {
+      output.rgb = rgb
+      output.kelvin = null
+      output.colorMode = mode && modes.includes(mode) ? mode : colorMode
+    }
+  }
+
+  const applyEntities = (entities: Record<string, unknown>): HAState[] => {
+    const ids = Object.keys(entities).filter(id => lights.has(id))
+    return track(expandGroups(ids), () => {
+      for (const id of ids) {
+        const entity = entities[id]
+        const data = typeof entity === 'string' ? { state: entity } : (entity ?? {}) as Record<string, unknown>
+        for (const target of expandGroups([id])) {
+          setLight(lights.get(target)!, data.state !== 'off', data)
+        }
+      }
+    })
+  }
+
+  const callService = (domain: string, service: string, data: Record<string, unknown>): SimulatorResponse => {
+    const entityIds = toList(data.entity_id ?? (data.target as Record<string, unknown> | undefined)?.entity_id)
+    const key = `${domain}.${service}`
+
+    if (key === 'light.turn_on' || key === 'light.turn_off' || key === 'light.toggle') {
+      const targets = expandGroups(entityIds.filter(id => lights.has(id)))
+      return {
+        status: 200,
+        body: track(targets, () => {
+          for (const id of targets) {
+            const light = lights.get(id)!
+            const on = key === 'light.turn_on' || (key === 'light.toggle' && !light.output.on)
+            setLight(light, on, data)
+          }
+        })
+      }
+    }
+    if (key === 'scene.turn_on') {
+      const changed = entityIds.flatMap(id => {
+        const sceneId = others.get(id)?.attributes.id
+        const config = typeof sceneId === 'string' ? configs.scene.get(sceneId) : undefined
+        return config ? applyEntities((config.entities ?? {}) as Record<string, unknown>) : []
+      })
+      return { status: 200, body: changed }
+    }
+    if (key === 'scene.apply') {
+      return { status: 200, body: applyEntities((data.entities ?? {}) as Record<string, unknown>) }
+    }
+    // Scripts are only marked running; their steps aren't played back
+    if (key === 'script.turn_on' || key === 'script.turn_off') {
+      const ids = entityIds.filter(id => others.has(id))
+      return {
+        status: 200,
+        body: track(ids, () => {
+          for (const id of ids) others.set(id, { ...others.get(id)!, state: key === 'script.turn_on' ? 'on' : 'off' })
+        })
+      }
+    }
+    return { status: 400, body: { message: `Service ${key} is not simulated` } }
+  }
+
+  // Stored scene, script or automation configs, and the entity each one shows up as.
+  // Automations are kept but never run.
+  const handleConfig = (
+    kind: ConfigKind,
+    id: string,
+    method: string,
+    body: Record<string, unknown> | null
+  ): SimulatorResponse => {
+    const store = configs[kind]
+    const entityId = `${kind}.${id}`
+    if (method === 'GET') {
+      const config = store.get(id)
+      return config ? { status: 200, body: config } : { status: 404, body: { message: 'Resource not found' } }
+    }
+    if (method === 'DELETE') {
+      if (!store.has(id)) return { status: 404, body: { message: 'Resource not found' } }
+      track([entityId], () => {
+        store.delete(id)
+        others.delete(entityId)
+        registryEdits.delete(entityId)
+      })
+      return { status: 200, body: { result: 'ok' } }
+    }
+    if (method === 'POST' && body) {
+      const name = String(body.name ?? body.alias ?? id)
+      track([entityId], () => {
+        store.set(id, body)
+        others.set(entityId, {
+          entity_id: entityId,
+          state: kind === 'scene' ? 'unknown' : kind === 'automation' ? 'on' : others.get(entityId)?.state ?? 'off',
+          attributes: {
+            id,
+            friendly_name: name,
+            ...(kind === 'scene' && { entity_id: Object.keys((body.entities ?? {}) as object) })
+          }
+        })
+      })
+      return { status: 200, body: { result: 'ok' } }
+    }
+    return { status: 405, body: { message: 'Method not allowed' } }
+  }
+
+  // The templates this app's earlier versions used to list areas and their lights
+  const renderTemplate = (template: string): SimulatorResponse => {
+    if (/^\{\{\s*areas\(\)\s*\|\s*list\s*\|\s*tojson\s*\}\}$/.test(template)) {
+      return { status: 200, body: JSON.stringify(setup.areas.map(a => a.id)) }
+    }
+    const name = /^\{\{\s*area_name\('([^']*)'\)\s*\}\}$/.exec(template)
+    if (name) return { status: 200, body: setup.areas.find(a => a.id === name[1])?.name ?? 'None' }
+    const entities = /^\{\{\s*area_entities\('([^']*)'\)/.exec(template)
+    if (entities) {
+      // An entity's own area wins over its device's, as in Home Assistant
+      const devices = deviceRegistry()
+      const ids = entityRegistry()
+        .filter(e => (e.area_id ?? devices.find(d => d.id === e.device_id)?.area_id) === entities[1])
+        .map(e => e.entity_id)
+      return { status: 200, body: JSON.stringify(ids) }
+    }
+    return { status: 400, body: { message: 'Template is not simulated' } }
+  }
+
+  const isAuthorized = (token: unknown) =>
+    typeof token === 'string' && token !== '' && (setup.token === undefined || token === setup.token)
+
+  const handleRequest = (method: string, path: string, body: string | null, authorization: string | null): SimulatorResponse => {
+    if (!isAuthorized(authorization?.replace(/^Bearer /, ''))) return { status: 401, body: '401: Unauthorized' }
+    let data: Record<string, unknown> | null = null
+    try {
+      data = body ? JSON.parse(body) : null
+    } catch {
+      return { status: 400, body: { message: 'Invalid JSON specified' } }
+    }
+    const route = path.replace(/^\/api/, '').replace(/\?.*$/, '')
+
+    if (route === '/' || route === '') return { status: 200, body: { message: 'API running.' } }
+    if (route === '/states' && method === 'GET') return { status: 200, body: allStates() }
+    const state = /^\/states\/([^/]+)$/.exec(route)
+    if (state && method === 'GET') {
+      const found = getState(state[1])
+      return found ? { status: 200, body: found } : { status: 404, body: { message: 'Entity not found.' } }
+    }
+    if (route === '/template' && method === 'POST') return renderTemplate(String(data?.template ?? ''))
+    const service = /^\/services\/([^/]+)\/([^/]+)$/.exec(route)
+    if (service && method === 'POST') return callService(service[1], service[2], data ?? {})
+    const config = /^\/config\/(scene|script|automation)\/config\/([^/]+)$/.exec(route)
+    if (config) return handleConfig(config[1] as ConfigKind, config[2], method, data)
+    return { status: 404, body: { message: 'Not found' } }
+  }
+
+  const entityRegistry = (): EntityRegistryEntry[] => [
+    ...[...lights].map(([entityId, light]) => registryEdits.get(entityId) ?? {
+      entity_id: entityId,
+      name: null,
+      // Groups have no device, so they're placed in the area directly
+      area_id: light.setup.members ? light.areaId : null,
+      device_id: light.setup.members ? null : `device_${light.setup.id}`,
+      disabled_by: null,
+      hidden_by: null
+    }),
+    ...[...others.keys()].map(entityId => registryEdits.get(entityId) ?? {
+      entity_id: entityId,
+      name: null,
+      area_id: null,
+      device_id: null,
+      disabled_by: null,
+      hidden_by: null
+    })
+  ]
+
+  const deviceRegistry = (): DeviceRegistryEntry[] => [...lights.values()]
+    .filter(l => !l.setup.members)
+    .map(l => ({
+      id: `device_${l.setup.id}`,
+      name: l.setup.name,
+      name_by_user: null,
+      area_id: l.areaId,
+      manufacturer: l.setup.manufacturer ?? null,
+      model: l.setup.model ?? null
+    }))
+
+  // Result of one WebSocket command, or an error message
+  const runCommand = (
+    message: Record<string, unknown>,
+    subscriptions: Map<number, string>
+  ): { result: unknown } | { error: string } => {
+    switch (message.type) {
+      case 'get_states':
+        return { result: allStates() }
+      case 'config/area_registry/list':
+        return { result: setup.areas.map((a): AreaRegistryEntry => ({ area_id: a.id, name: a.name })) }
+      case 'config/entity_registry/list':
+        return { result: entityRegistry() }
+      case 'config/device_registry/list':
+        return { result: deviceRegistry() }
+      case 'config/entity_registry/update': {
+        const entityId = String(message.entity_id)
+        const entry = entityRegistry().find(e => e.entity_id === entityId)
+        if (!entry) return { error: `Entity not found: ${entityId}` }
+        const updated = {
+          ...entry,
+          ...('area_id' in message && { area_id: (message.area_id as string | null) }),
+          ...('name' in message && { name: (message.name as string | null) })
+        }
+        registryEdits.set(entityId, updated)
+        broadcast('entity_registry_updated', { action: 'update', entity_id: entityId })
+        return { result: { entity_entry: updated } }
+      }
+      case 'subscribe_events':
+        subscriptions.set(Number(message.id), String(message.event_type ?? '*'))
+        return { result: null }
+      case 'unsubscribe_events':
+        if (!subscriptions.delete(Number(message.subscription))) return { error: 'Subscription not found.' }
+        return { result: null }
+      case 'call_service': {
+        const response = callService(String(message.domain), String(message.service), {
+          ...(message.service_data as object),
+          ...(message.target as object)
+        })
+        return response.status === 200 ? { result: { context: null } } : { error: String((response.body as { message: string }).message) }
+      }
+      default:
+        return { error: `Unknown command: ${message.type}` }
+    }
+  }
+
+  const connect = (send: (message: object) => void): SimulatorSession => {
+    const session = { send, subscriptions: new Map<number, string>() }
+    let authenticated = false
+    send({ type: 'auth_required', ha_version: 'simulated' })
+
+    return {
+      receive(message) {
+        if (!authenticated) {
+          if (message.type !== 'auth') return
+          if (isAuthorized(message.access_token)) {
+            authenticated = true
+            sessions.add(session)
+            send({ type: 'auth_ok', ha_version: 'simulated' })
+          } else {
+            send({ type: 'auth_invalid', message: 'Invalid access token or password' })
+          }
+          return
+        }
+        const outcome = runCommand(message, session.subscriptions)
+        send('result' in outcome
+          ? { id: message.id, type: 'result', success: true, result: outcome.result }
+          : { id: message.id, type: 'result', success: false, error: { code: 'unknown_error', message: outcome.error } })
+      },
+      close() {
+        sessions.delete(session)
+      }
+    }
+  }
+
+  return { handleRequest, connect, reset }
+}
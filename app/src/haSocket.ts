@@ -0,0 +1,249 @@
+import { getProxyPath } from './connections'
+import { HAApiError, reportAuthFailure, type HAErrorKind } from './ha'
+import type {
+  AreaRegistryEntry,
+  DeviceRegistryEntry,
+  EntityRegistryEntry,
+  HAState
+} from './types'
+
+const REQUEST_TIMEOUT_MS = 10000
+const RECONNECT_BASE_MS = 1000
+const RECONNECT_MAX_MS = 30000
+
+// Error codes of failed WebSocket commands that mean more than "refused"
+const ERROR_CODE_KINDS: Record<string, HAErrorKind> = {
+  unauthorized: 'permission',
+  not_found: 'not_found',
+  timeout: 'timeout'
+}
+
+export interface HAEvent<T = unknown> {
+  event_type: string
+  data: T
+  time_fired: string
+}
+
+export interface StateChangedData {
+  entity_id: string
+  old_state: HAState | null
+  new_state: HAState | null
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timeout: ReturnType<typeof setTimeout>
+}
+
+interface Subscription {
+  eventType: string
+  callback: (event: HAEvent) => void
+  // Message id of the live subscription, null while disconnected
+  id: number | null
+}
+
+export interface HAConnection {
+  sendMessage<T>(message: Record<string, unknown>): Promise<T>
+  subscribeEvents<T>(eventType: string, callback: (event: HAEvent<T>) => void): Promise<() => void>
+  onConnectionChange(callback: (connected: boolean) => void): () => void
+  listAreas(): Promise<AreaRegistryEntry[]>
+  listEntities(): Promise<EntityRegistryEntry[]>
+  listDevices(): Promise<DeviceRegistryEntry[]>
+  getStates(): Promise<HAState[]>
+  updateEntity(entityId: string, changes: Partial<Pick<EntityRegistryEntry, 'area_id' | 'name'>>): Promise<void>
+  close(): void
+}
+
+// Opens the sockets; replaced by the simulated Home Assistant in demo mode
+type SocketFactory = (url: string) => WebSocket
+
+const networkSocket: SocketFactory = url => new WebSocket(url)
+let socketFactory = networkSocket
+
+export function setSocketFactory(factory: SocketFactory | null) {
+  socketFactory = factory ?? networkSocket
+}
+
+function getSocketUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${protocol}//${window.location.host}${getProxyPath('ws')}`
+}
+
+// Open an authenticated socket; resolves on auth_ok, rejects on auth_invalid or network failure
+function openSocket(token: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = socketFactory(getSocketUrl())
+
+    const timeout = setTimeout(() => {
+      ws.close()
+      reject(new HAApiError('timeout'))
+    }, REQUEST_TIMEOUT_MS)
+
+    ws.onmessage = (event) => {
+      const msg = JSON.parse(event.data)
+      if (msg.type === 'auth_required') {
+        ws.send(JSON.stringify({ type: 'auth', access_token: token }))
+      } else if (msg.type === 'auth_ok') {
+        clearTimeout(timeout)
+        ws.onmessage = null
+        ws.onerror = null
+        resolve(ws)
+      } else if (msg.type === 'auth_invalid') {
+        clearTimeout(timeout)
+        ws.close()
+        reject(new HAApiError('auth', 401))
+      }
+    }
+
+    ws.onerror = () => {
+      clearTimeout(timeout)
+      reject(new HAApiError('unreachable', 0, 'WebSocket connection failed'))
+    }
+  })
+}
+
+// Long-lived Home Assistant WebSocket connection with request/response
+// correlation, event subscriptions and automatic reconnect. `getToken` is asked
+// again on every reconnect, so short-lived access tokens can be refreshed.
+export async function createConnection(getToken: () => Promise<string>): Promise<HAConnection> {
+  let ws = await openSocket(await getToken())
+  let nextId = 1
+  let closed = false
+  let reconnectAttempt = 0
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  const pending = new Map<number, PendingRequest>()
+  const subscriptions = new Set<Subscription>()
+  const connectionListeners = new Set<(connected: boolean) => void>()
+
+  const send = <T>(message: Record<string, unknown>): Promise<T> => {
+    if (ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new HAApiError('unreachable', 0, 'reconnecting'))
+    }
+    const id = nextId++
+    return new Promise<T>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        pending.delete(id)
+        reject(new HAApiError('timeout', 0, String(message.type)))
+      }, REQUEST_TIMEOUT_MS)
+      pending.set(id, { resolve: resolve as (result: unknown) => void, reject, timeout })
+      ws.send(JSON.stringify({ ...message, id }))
+    })
+  }
+
+  const subscribe = async (sub: Subscription) => {
+    // send() claims the next id synchronously, so events can be matched before the result arrives
+    sub.id = nextId
+    try {
+      await send({ type: 'subscribe_events', event_type: sub.eventType })
+    } catch (e) {
+      sub.id = null
+      throw e
+    }
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    const msg = JSON.parse(event.data)
+
+    if (msg.type === 'result') {
+      const request = pending.get(msg.id)
+      if (!request) return
+      pending.delete(msg.id)
+      clearTimeout(request.timeout)
+      if (msg.success) {
+        request.resolve(msg.result)
+      } else {
+        const kind = ERROR_CODE_KINDS[msg.error?.code] ?? 'request'
+        request.reject(new HAApiError(kind, 0, msg.error?.message))
+      }
+    } else if (msg.type === 'event') {
+      for (const sub of subscriptions) {
+        if (sub.id === msg.id) sub.callback(msg.event)
+      }
+    }
+  }
+
+  const handleClose = () => {
+    for (const [, request] of pending) {
+      clearTimeout(request.timeout)
+      request.reject(new HAApiError('unreachable', 0, 'connection lost'))
+    }
+    pending.clear()
+    for (const sub of subscriptions) sub.id = null
+    if (closed) return
+
+    connectionListeners.forEach(cb => cb(false))
+    scheduleReconnect()
+  }
+
+  const attach = (socket: WebSocket) => {
+    socket.onmessage = handleMessage
+    socket.onclose = handleClose
+  }
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempt)
+    reconnectAttempt++
+    reconnectTimer = setTimeout(async () => {
+      try {
+        const socket = await openSocket(await getToken())
+        if (closed) {
+          socket.close()
+          return
+        }
+        ws = socket
+        attach(ws)
+        reconnectAttempt = 0
+        // Re-establish subscriptions on the new socket
+        await Promise.allSettled([...subscriptions].map(subscribe))
+        connectionListeners.forEach(cb => cb(true))
+      } catch (e) {
+        // A rejected login won't be accepted on the next attempt either
+        if (e instanceof HAApiError && e.kind === 'auth') {
+          reportAuthFailure()
+          return
+        }
+        if (!closed) scheduleReconnect()
+      }
+    }, delay)
+  }
+
+  attach(ws)
+
+  return {
+    sendMessage: send,
+
+    async subscribeEvents<T>(eventType: string, callback: (event: HAEvent<T>) => void) {
+      const sub: Subscription = { eventType, callback: callback as (event: HAEvent) => void, id: null }
+      subscriptions.add(sub)
+      await subscribe(sub)
+
+      return () => {
+        subscriptions.delete(sub)
+        if (sub.id !== null && ws.readyState === WebSocket.OPEN) {
+          send({ type: 'unsubscribe_events', subscription: sub.id }).catch(() => {})
+        }
+      }
+    },
+
+    onConnectionChange(callback) {
+      connectionListeners.add(callback)
+      return () => { connectionListeners.delete(callback) }
+    },
+
+    listAreas: () => send<AreaRegistryEntry[]>({ type: 'config/area_registry/list' }),
+    listEntities: () => send<EntityRegistryEntry[]>({ type: 'config/entity_registry/list' }),
+    listDevices: () => send<DeviceRegistryEntry[]>({ type: 'config/device_registry/list' }),
+    getStates: () => send<HAState[]>({ type: 'get_states' }),
+
+    async updateEntity(entityId, changes) {
+      await send({ type: 'config/entity_registry/update', entity_id: entityId, ...changes })
+    },
+
+    close() {
+      closed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      ws.close()
+    }
+  }
+}
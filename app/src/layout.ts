@@ -0,0 +1,75 @@
+import { profileKey } from './connections'
+import type { Point } from './types'
+
+// Area ids belong to one HA instance, so layouts are kept per connection profile
+const STORAGE_KEY = 'ha-layouts'
+// Radius of the ring unplaced lights start on, as a fraction of the plan
+const DEFAULT_RING_RADIUS = 0.35
+
+export type Rotation = 0 | 90 | 180 | 270
+
+// How floor plan positions are laid onto the image
+export interface LayoutMapping {
+  // Flip left and right, e.g. when the image is meant to be seen from the other side of the room
+  mirror: boolean
+  // Clockwise, applied after mirroring
+  rotation: Rotation
+  // Spread around the image center; < 1 pulls dots inwards
+  scale: number
+}
+
+export interface AreaLayout {
+  // Light positions on the floor plan, keyed by entity id
+  positions: Record<string, Point>
+  mapping: LayoutMapping
+}
+
+// Keyed by area id
+export type LayoutStore = Record<string, AreaLayout>
+
+export const DEFAULT_MAPPING: LayoutMapping = { mirror: false, rotation: 0, scale: 1 }
+
+export const EMPTY_LAYOUT: AreaLayout = { positions: {}, mapping: DEFAULT_MAPPING }
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v))
+
+export function loadLayouts(): LayoutStore {
+  return JSON.parse(localStorage.getItem(profileKey(STORAGE_KEY)) || '{}')
+}
+
+export function saveLayouts(store: LayoutStore) {
+  localStorage.setItem(profileKey(STORAGE_KEY), JSON.stringify(store))
+}
+
+// Where a light sits on the plan; unplaced lights are spread on a ring, in list order
+export function getLayoutPosition(layout: AreaLayout, entityId: string, index: number, count: number): Point {
+  const placed = layout.positions[entityId]
+  if (placed) return placed
+  const angle = 2 * Math.PI * index / Math.max(1, count) - Math.PI / 2
+  return {
+    x: 0.5 + DEFAULT_RING_RADIUS * Math.cos(angle),
+    y: 0.5 + DEFAULT_RING_RADIUS * Math.sin(angle)
+  }
+}
+
+// Image position for a floor plan position
+export function mapToImage(point: Point, mapping: LayoutMapping): Point {
+  let x = point.x - 0.5
+  let y = point.y - 0.5
+  if (mapping.mirror) x = -x
+  for (let turns = mapping.rotation / 90; turns > 0; turns--) {
+    [x, y] = [-y, x]
+  }
+  return {
+    x: clamp01(0.5 + x * mapping.scale),
+    y: clamp01(0.5 + y * mapping.scale)
+  }
+}
+
+// Random offset of up to `amount` in each direction
+export function jitterPoint(point: Point, amount: number): Point {
+  return {
+    x: clamp01(point.x + (Math.random() * 2 - 1) * amount),
+    y: clamp01(point.y + (Math.random() * 2 - 1) * amount)
+  }
+}
@@ -0,0 +1,182 @@
+import type { ColorMode, DeviceRegistryEntry, EntityRegistryEntry, HAState, Light, LightKind } from './types'
+
+// Most specific first: dedicated white channels beat xy, which beats hs and plain rgb
+const COLOR_MODES: ColorMode[] = ['rgbww', 'rgbw', 'xy', 'hs', 'rgb']
+// HA converts these for any color light, so they are always valid overrides
+const UNIVERSAL_COLOR_MODES: ColorMode[] = ['xy', 'hs', 'rgb']
+// Used when a tunable light doesn't report its range
+const DEFAULT_MIN_KELVIN = 2000
+const DEFAULT_MAX_KELVIN = 6500
+
+function getLightKind(colorModes: ColorMode[], supported: string[]): LightKind | null {
+  if (colorModes.length > 0) return 'color'
+  if (supported.includes('color_temp')) return 'color_temp'
+  if (supported.includes('brightness')) return 'brightness'
+  // On/off-only lights have nothing to take from the image
+  return null
+}
+
+// Whether a grouped fixture gets one color or each of its bulbs its own sample
+export type GroupMode = 'single' | 'members'
+
+// Member light entities of a group. Hue groups that don't list entity ids
+// are matched through the member names in their `lights` attribute.
+function getMemberIds(state: HAState | undefined, states: Map<string, HAState>): string[] {
+  const ids = state?.attributes.entity_id
+  if (Array.isArray(ids)) return ids.filter(id => id.startsWith('light.'))
+
+  const names = state?.attributes.lights
+  if (state?.attributes.is_hue_group === true && Array.isArray(names)) {
+    return [...states.values()]
+      .filter(s => s.entity_id.startsWith('light.') && !s.attributes.is_hue_group)
+      .filter(s => names.includes(s.attributes.friendly_name))
+      .map(s => s.entity_id)
+  }
+  return []
+}
+
+// Area of an entity: its own, else its device's
+export function getEntityArea(
+  entityId: string,
+  entities: EntityRegistryEntry[],
+  devices: DeviceRegistryEntry[]
+): string | null {
+  const entry = entities.find(e => e.entity_id === entityId)
+  if (!entry) return null
+  return entry.area_id ?? devices.find(d => d.id === entry.device_id)?.area_id ?? null
+}
+
+// Lights in an area (directly or through their device) that can follow the image.
+// Groups carry their bulbs as members, and bulbs shown inside a group are not listed again.
+export function getAreaLights(
+  areaId: string,
+  entities: EntityRegistryEntry[],
+  devices: DeviceRegistryEntry[],
+  states: Map<string, HAState>
+): Light[] {
+  if (!areaId) return []
+  const entitiesById = new Map(entities.map(e => [e.entity_id, e]))
+  const devicesById = new Map(devices.map(d => [d.id, d]))
+
+  // `visited` guards against groups that (indirectly) contain themselves
+  const buildLight = (entityId: string, visited: Set<string>): Light | null => {
+    const state = states.get(entityId)
+    const entry = entitiesById.get(entityId)
+    const device = entry?.device_id ? devicesById.get(entry.device_id) : undefined
+
+    const supported = state?.attributes?.supported_color_modes || []
+    const color_modes = COLOR_MODES.filter(m => supported.includes(m))
+    const kind = getLightKind(color_modes, supported)
+    if (!kind) return null
+
+    const memberIds = getMemberIds(state, states)
+    const isHueGroup = state?.attributes?.is_hue_group === true
+    const members = getLeafLights(memberIds, new Set([...visited, entityId]))
+    // A Hue group whose bulbs can't be told apart would duplicate them
+    if (isHueGroup && members.length === 0) return null
+
+    return {
+      entity_id: entityId,
+      name: state?.attributes?.friendly_name || entityId,
+      kind,
+      color_modes,
+      min_kelvin: Number(state?.attributes?.min_color_temp_kelvin) || DEFAULT_MIN_KELVIN,
+      max_kelvin: Number(state?.attributes?.max_color_temp_kelvin) || DEFAULT_MAX_KELVIN,
+      manufacturer: device?.manufacturer ?? null,
+      model: device?.model ?? null,
+      group_type: isHueGroup ? 'hue' : memberIds.length > 0 ? 'ha' : null,
+      members
+    }
+  }
+
+  const getLeafLights = (ids: string[], visited: Set<string>): Light[] => {
+    const leaves = new Map<string, Light>()
+    for (const id of ids) {
+      if (visited.has(id)) continue
+      const light = buildLight(id, visited)
+      if (!light) continue
+      for (const leaf of light.members.length > 0 ? light.members : [light]) {
+        leaves.set(leaf.entity_id, leaf)
+      }
+    }
+    return [...leaves.values()]
+  }
+
+  const areaLights = entities
+    .filter(e => e.entity_id.startsWith('light.') && !e.disabled_by)
+    .filter(e => (e.area_id ?? (e.device_id ? devicesById.get(e.device_id)?.area_id : null)) === areaId)
+    .flatMap(e => buildLight(e.entity_id, new Set()) ?? [])
+
+  const grouped = new Set(areaLights.flatMap(l => l.members.map(m => m.entity_id)))
+  return areaLights.filter(l => l.members.length > 0 || !grouped.has(l.entity_id))
+}
+
+// HA light groups act as one fixture by default; Hue groups used to be hidden in
+// favor of their bulbs, so they start out expanded
+export function getDefaultGroupMode(group: Light): GroupMode {
+  return group.group_type === 'hue' ? 'members' : 'single'
+}
+
+export function getGroupMode(group: Light, groupModes: Record<string, GroupMode>): GroupMode {
+  return groupModes[group.entity_id] ?? getDefaultGroupMode(group)
+}
+
+// The entities a scene addresses, in list order: each group as itself or as its members,
+// so that every bulb is set by exactly one entity. A single-color group overlapping an
+// earlier one is expanded instead, so shared bulbs are never set twice.
+export function getSceneLights(lights: Light[], groupModes: Record<string, GroupMode>): Light[] {
+  const wholeGroups = new Set<string>()
+  const covered = new Set<string>()
+  for (const group of lights.filter(l => l.members.length > 0)) {
+    if (getGroupMode(group, groupModes) !== 'single') continue
+    if (group.members.some(m => covered.has(m.entity_id))) continue
+    wholeGroups.add(group.entity_id)
+    group.members.forEach(m => covered.add(m.entity_id))
+  }
+
+  const result = new Map<string, Light>()
+  for (const light of lights) {
+    if (wholeGroups.has(light.entity_id) || light.members.length === 0) {
+      result.set(light.entity_id, light)
+      continue
+    }
+    for (const member of light.members) {
+      if (!covered.has(member.entity_id)) result.set(member.entity_id, member)
+    }
+  }
+  return [...result.values()]
+}
+
+// The light's own best color mode
+export function getDefaultColorMode(light: Light): ColorMode {
+  return light.color_modes[0] ?? 'rgb'
+}
+
+// Modes the user may pick for a light: its native ones plus those HA converts
+export function getColorModeOptions(light: Light): ColorMode[] {
+  return COLOR_MODES.filter(m => light.color_modes.includes(m) || UNIVERSAL_COLOR_MODES.includes(m))
+}
+
+// Lights of several areas, each listed once under the first area it appears in.
+// `areaOf` maps every listed light and group member to that area.
+export function getMultiAreaLights(
+  areaIds: string[],
+  entities: EntityRegistryEntry[],
+  devices: DeviceRegistryEntry[],
+  states: Map<string, HAState>
+): { lights: Light[]; areaOf: Map<string, string> } {
+  const lights: Light[] = []
+  const areaOf = new Map<string, string>()
+  for (const areaId of areaIds) {
+    for (const light of getAreaLights(areaId, entities, devices, states)) {
+      if (areaOf.has(light.entity_id)) continue
+      lights.push(light)
+      for (const l of [light, ...light.members]) {
+        if (!areaOf.has(l.entity_id)) areaOf.set(l.entity_id, areaId)
+      }
+    }
+  }
+  // A bulb listed on its own in one area may belong to a group in another
+  const grouped = new Set(lights.flatMap(l => l.members.map(m => m.entity_id)))
+  return { lights: lights.filter(l => l.members.length > 0 || !grouped.has(l.entity_id)), areaOf }
+}
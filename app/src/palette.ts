@@ -0,0 +1,130 @@
+// Dominant-palette extraction (weighted k-means over a subsample of the image)
+
+const MAX_PALETTE_PIXELS = 12000
+const KMEANS_ITERATIONS = 12
+const MAX_CANDIDATES = 64
+// Baseline weight so greys still form clusters in monochrome images
+const MIN_PIXEL_WEIGHT = 0.1
+
+export interface PaletteColor {
+  r: number
+  g: number
+  b: number
+  // Share of the (saturation-weighted) image this cluster covers, 0-1
+  weight: number
+  // Normalized positions of the pixels closest to the cluster centroid, best first
+  candidates: { x: number; y: number }[]
+}
+
+interface Pixel {
+  x: number
+  y: number
+  r: number
+  g: number
+  b: number
+  weight: number
+}
+
+function collectPixels(data: ImageData): Pixel[] {
+  const total = data.width * data.height
+  const step = Math.max(1, Math.floor(Math.sqrt(total / MAX_PALETTE_PIXELS)))
+  const pixels: Pixel[] = []
+
+  for (let py = 0; py < data.height; py += step) {
+    for (let px = 0; px < data.width; px += step) {
+      const idx = (py * data.width + px) * 4
+      const r = data.data[idx], g = data.data[idx + 1], b = data.data[idx + 2]
+      // Chroma rather than HSL saturation, so near-black noise doesn't count as vivid
+      const chroma = (Math.max(r, g, b) - Math.min(r, g, b)) / 255
+      pixels.push({
+        x: (px + 0.5) / data.width,
+        y: (py + 0.5) / data.height,
+        r, g, b,
+        weight: MIN_PIXEL_WEIGHT + chroma
+      })
+    }
+  }
+  return pixels
+}
+
+function distanceSq(p: { r: number; g: number; b: number }, c: { r: number; g: number; b: number }): number {
+  const dr = p.r - c.r, dg = p.g - c.g, db = p.b - c.b
+  return dr * dr + dg * dg + db * db
+}
+
+// k-means++ seeding, biased towards heavily weighted (saturated) pixels
+function seedCentroids(pixels: Pixel[], k: number): { r: number; g: number; b: number }[] {
+  const pickWeighted = (scores: number[]) => {
+    const sum = scores.reduce((a, v) => a + v, 0)
+    let target = Math.random() * sum
+    for (let i = 0; i < scores.length; i++) {
+      target -= scores[i]
+      if (target <= 0) return i
+    }
+    return scores.length - 1
+  }
+
+  const first = pixels[pickWeighted(pixels.map(p => p.weight))]
+  const centroids = [{ r: first.r, g: first.g, b: first.b }]
+
+  while (centroids.length < k) {
+    const scores = pixels.map(p =>
+      p.weight * Math.min(...centroids.map(c => distanceSq(p, c)))
+    )
+    if (scores.every(s => s === 0)) break
+    const next = pixels[pickWeighted(scores)]
+    centroids.push({ r: next.r, g: next.g, b: next.b })
+  }
+  return centroids
+}
+
+export function extractPalette(data: ImageData, k: number): PaletteColor[] {
+  const pixels = collectPixels(data)
+  if (pixels.length === 0 || k < 1) return []
+
+  let centroids = seedCentroids(pixels, k)
+  const assignments = new Array<number>(pixels.length).fill(0)
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    let changed = false
+    pixels.forEach((p, i) => {
+      let best = 0, bestDist = Infinity
+      centroids.forEach((c, ci) => {
+        const d = distanceSq(p, c)
+        if (d < bestDist) { bestDist = d; best = ci }
+      })
+      if (assignments[i] !== best) { assignments[i] = best; changed = true }
+    })
+
+    const sums = centroids.map(() => ({ r: 0, g: 0, b: 0, w: 0 }))
+    pixels.forEach((p, i) => {
+      const s = sums[assignments[i]]
+      s.r += p.r * p.weight
+      s.g += p.g * p.weight
+      s.b += p.b * p.weight
+      s.w += p.weight
+    })
+    centroids = sums.map((s, ci) => s.w > 0
+      ? { r: s.r / s.w, g: s.g / s.w, b: s.b / s.w }
+      : centroids[ci]
+    )
+
+    if (!changed && iter > 0) break
+  }
+
+  const totalWeight = pixels.reduce((a, p) => a + p.weight, 0)
+
+  return centroids
+    .map((c, ci) => {
+      const members = pixels.filter((_, i) => assignments[i] === ci)
+      const weight = members.reduce((a, p) => a + p.weight, 0) / totalWeight
+      const candidates = members
+        .map(p => ({ p, d: distanceSq(p, c) }))
+        .sort((a, b) => a.d - b.d)
+        .slice(0, MAX_CANDIDATES)
+        .map(({ p }) => ({ x: p.x, y: p.y }))
+      return { r: Math.round(c.r), g: Math.round(c.g), b: Math.round(c.b), weight, candidates }
+    })
+    .filter(c => c.candidates.length > 0)
+    .sort((a, b) => b.weight - a.weight)
+}
@@ -0,0 +1,140 @@
+import { describeColor, hslToRgb, rgbToHsl } from './color'
+
+// Synthetic images are sampled like any other image, so they only need to be big
+// enough for the sampling region around each dot
+const IMAGE_WIDTH = 640
+const IMAGE_HEIGHT = 360
+// Fraction of each harmony band blended into its neighbours
+const BAND_BLEND = 0.25
+// Lightness added at the top of the image and taken away at the bottom
+const LIGHTNESS_SPREAD = 12
+
+export type HarmonyRule = 'complementary' | 'analogous' | 'triadic' | 'split-complementary' | 'monochrome'
+
+export const HARMONY_LABELS: Record<HarmonyRule, string> = {
+  complementary: 'Complementary',
+  analogous: 'Analogous',
+  triadic: 'Triadic',
+  'split-complementary': 'Split-complementary',
+  monochrome: 'Monochrome'
+}
+
+export interface HarmonySettings {
+  kind: 'harmony'
+  rule: HarmonyRule
+  hue: number
+  saturation: number
+  lightness: number
+}
+
+export interface GradientSettings {
+  kind: 'gradient'
+  // Stop colors from left to right
+  stops: [number, number, number][]
+}
+
+export type GeneratorSettings = HarmonySettings | GradientSettings
+
+export const DEFAULT_HARMONY: HarmonySettings = {
+  kind: 'harmony',
+  rule: 'triadic',
+  hue: 175,
+  saturation: 80,
+  lightness: 50
+}
+
+export const DEFAULT_GRADIENT: GradientSettings = {
+  kind: 'gradient',
+  stops: [[255, 120, 30], [240, 60, 140], [40, 120, 255]]
+}
+
+// Hue offsets from the base hue for each rule
+const HARMONY_OFFSETS: Record<Exclude<HarmonyRule, 'monochrome'>, number[]> = {
+  complementary: [0, 180],
+  analogous: [-30, 0, 30],
+  triadic: [0, 120, 240],
+  'split-complementary': [0, 150, 210]
+}
+// Lightness offsets for monochrome, around the base lightness
+const MONOCHROME_STEPS = [-30, -15, 0, 15, 30]
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v))
+
+export function getHarmonyColors({ rule, hue, saturation, lightness }: HarmonySettings): [number, number, number][] {
+  if (rule === 'monochrome') {
+    return MONOCHROME_STEPS.map(step => hslToRgb(hue, saturation, clamp(lightness + step, 5, 95)))
+  }
+  return HARMONY_OFFSETS[rule].map(offset => hslToRgb((hue + offset + 360) % 360, saturation, lightness))
+}
+
+// Colors shown in the generator's preview strip
+export function getGeneratorColors(settings: GeneratorSettings): [number, number, number][] {
+  return settings.kind === 'harmony' ? getHarmonyColors(settings) : settings.stops
+}
+
+// Blend between two colors in HSL, taking the short way round the hue circle,
+// so a warm-to-cool gradient passes through vivid colors instead of grey
+function mixHsl(a: [number, number, number], b: [number, number, number], t: number): [number, number, number] {
+  const [h1, s1, l1] = rgbToHsl(...a)
+  const [h2, s2, l2] = rgbToHsl(...b)
+  let dh = h2 - h1
+  if (dh > 180) dh -= 360
+  if (dh < -180) dh += 360
+  return hslToRgb((h1 + dh * t + 360) % 360, s1 + (s2 - s1) * t, l1 + (l2 - l1) * t)
+}
+
+// Color of each image column: solid harmony bands with soft edges, or the gradient
+function getColumnColor(settings: GeneratorSettings, u: number): [number, number, number] {
+  const colors = getGeneratorColors(settings)
+  if (colors.length === 1) return colors[0]
+
+  if (settings.kind === 'gradient') {
+    const pos = u * (colors.length - 1)
+    const i = Math.min(colors.length - 2, Math.floor(pos))
+    return mixHsl(colors[i], colors[i + 1], pos - i)
+  }
+
+  const pos = u * colors.length
+  const i = Math.min(colors.length - 1, Math.floor(pos))
+  const within = pos - i
+  if (within > 1 - BAND_BLEND / 2 && i < colors.length - 1) {
+    return mixHsl(colors[i], colors[i + 1], (within - (1 - BAND_BLEND / 2)) / BAND_BLEND)
+  }
+  if (within < BAND_BLEND / 2 && i > 0) {
+    return mixHsl(colors[i - 1], colors[i], 0.5 + within / BAND_BLEND)
+  }
+  return colors[i]
+}
+
+// Render the palette as an image the editor loads like a preset: columns carry the
+// colors, rows vary their lightness a little so rerolls don't all land on the same shade
+export function renderGeneratorImage(settings: GeneratorSettings): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = IMAGE_WIDTH
+  canvas.height = IMAGE_HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return canvas.toDataURL('image/png')
+
+  const image = ctx.createImageData(IMAGE_WIDTH, IMAGE_HEIGHT)
+  const columns = Array.from({ length: IMAGE_WIDTH }, (_, x) => rgbToHsl(...getColumnColor(settings, (x + 0.5) / IMAGE_WIDTH)))
+  for (let y = 0; y < IMAGE_HEIGHT; y++) {
+    const shift = LIGHTNESS_SPREAD * (1 - 2 * (y + 0.5) / IMAGE_HEIGHT)
+    for (let x = 0; x < IMAGE_WIDTH; x++) {
+      const [h, s, l] = columns[x]
+      image.data.set([...hslToRgb(h, s, clamp(l + shift, 0, 100)), 255], (y * IMAGE_WIDTH + x) * 4)
+    }
+  }
+  ctx.putImageData(image, 0, 0)
+  return canvas.toDataURL('image/png')
+}
+
+// Default scene name, e.g. "Triadic teal" or "Orange to blue"
+export function getGeneratorName(settings: GeneratorSettings): string {
+  if (settings.kind === 'harmony') {
+    const base = describeColor(...hslToRgb(settings.hue, settings.saturation, settings.lightness))
+    return `${HARMONY_LABELS[settings.rule]} ${base}`
+  }
+  const first = describeColor(...settings.stops[0])
+  const last = describeColor(...settings.stops[settings.stops.length - 1])
+  return `${first.charAt(0).toUpperCase()}${first.slice(1)} to ${last}`
+}
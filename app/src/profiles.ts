@@ -0,0 +1,135 @@
+import { hslToRgb, rgbToHsl } from './color'
+import { profileKey } from './connections'
+import type { Light } from './types'
+
+// Profiles and model/manufacturer assignments hold for any instance; assignments to
+// single lights are keyed by entity id, so those are kept per connection profile
+const STORAGE_KEY = 'ha-profiles'
+const LIGHTS_STORAGE_KEY = 'ha-profile-lights'
+export const DEFAULT_PROFILE_ID = 'default'
+
+// Rotate hues near `hue` (within ±range degrees, fading out) by `shift` degrees
+export interface HueShift {
+  hue: number
+  range: number
+  shift: number
+}
+
+// How a bulb model should be driven so it matches the on-screen color
+export interface NormalizationProfile {
+  id: string
+  name: string
+  // Saturation below the threshold becomes s * gain + lift
+  saturationThreshold: number
+  saturationGain: number
+  saturationLift: number
+  // Lightness below the floor is mapped into floor..floor + lightnessRange
+  lightnessFloor: number
+  lightnessRange: number
+  // Per-channel gains, applied after the HSL adjustments
+  whiteBalance: [number, number, number]
+  // Output exponent per channel; > 1 darkens midtones, < 1 lifts them
+  gamma: number
+  hueShifts: HueShift[]
+}
+
+export interface ProfileAssignments {
+  entities: Record<string, string>
+  // Keyed by getModelKey()
+  models: Record<string, string>
+  manufacturers: Record<string, string>
+}
+
+export interface ProfileStore {
+  profiles: NormalizationProfile[]
+  assignments: ProfileAssignments
+}
+
+// Moderate saturation boost and dark-color lift that suits most smart bulbs
+export const DEFAULT_PROFILE: NormalizationProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  saturationThreshold: 40,
+  saturationGain: 1.4,
+  saturationLift: 12,
+  lightnessFloor: 25,
+  lightnessRange: 10,
+  whiteBalance: [1, 1, 1],
+  gamma: 1,
+  hueShifts: []
+}
+
+export function getModelKey(manufacturer: string | null, model: string | null): string {
+  return `${manufacturer ?? ''}|${model ?? ''}`
+}
+
+export function loadProfileStore(): ProfileStore {
+  const stored: Partial<ProfileStore> = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+  // Light assignments saved in the shared store before they moved out of it were made
+  // with the default profile, which keeps the plain key (see profileKey)
+  const legacyLights = stored.assignments?.entities
+  if (legacyLights && localStorage.getItem(LIGHTS_STORAGE_KEY) === null) {
+    localStorage.setItem(LIGHTS_STORAGE_KEY, JSON.stringify(legacyLights))
+  }
+  return {
+    profiles: [DEFAULT_PROFILE, ...(stored.profiles ?? []).filter(p => p.id !== DEFAULT_PROFILE_ID)],
+    assignments: {
+      models: {},
+      manufacturers: {},
+      ...stored.assignments,
+      entities: JSON.parse(localStorage.getItem(profileKey(LIGHTS_STORAGE_KEY)) || '{}')
+    }
+  }
+}
+
+export function saveProfileStore(store: ProfileStore) {
+  const { entities, ...shared } = store.assignments
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({
+    // The built-in default is never stored
+    profiles: store.profiles.filter(p => p.id !== DEFAULT_PROFILE_ID),
+    assignments: shared
+  }))
+  localStorage.setItem(profileKey(LIGHTS_STORAGE_KEY), JSON.stringify(entities))
+}
+
+// Most specific assignment wins: light, then model, then manufacturer
+export function resolveProfile(light: Light, store: ProfileStore): NormalizationProfile {
+  const { entities, models, manufacturers } = store.assignments
+  const id = entities[light.entity_id]
+    ?? models[getModelKey(light.manufacturer, light.model)]
+    ?? (light.manufacturer ? manufacturers[light.manufacturer] : undefined)
+  return store.profiles.find(p => p.id === id) ?? DEFAULT_PROFILE
+}
+
+function hueDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360
+  return d > 180 ? 360 - d : d
+}
+
+// Adjust a color so that this bulb renders it close to the on-screen color
+export function applyProfile([r, g, b]: [number, number, number], profile: NormalizationProfile): [number, number, number] {
+  const [h0, s0, l0] = rgbToHsl(r, g, b)
+  let h = h0, s = s0, l = l0
+
+  for (const { hue, range, shift } of profile.hueShifts) {
+    const distance = hueDistance(h0, hue)
+    if (range > 0 && distance < range) {
+      h += shift * (1 - distance / range)
+    }
+  }
+  h = (h + 360) % 360
+
+  if (s < profile.saturationThreshold) {
+    s = Math.min(100, s * profile.saturationGain + profile.saturationLift)
+  }
+
+  if (l < profile.lightnessFloor) {
+    l = profile.lightnessFloor + (l / profile.lightnessFloor) * profile.lightnessRange
+  }
+
+  const rgb = hslToRgb(h, s, l)
+  return rgb.map((c, i) => {
+    const balanced = Math.min(255, c * profile.whiteBalance[i])
+    return Math.round(255 * (balanced / 255) ** profile.gamma)
+  }) as [number, number, number]
+}
@@ -0,0 +1,57 @@
+// Region sampling around a dot, so JPEG noise and dithering don't make colors jump
+
+// Upper bound on pixels read per sample; larger regions are read on a grid
+const MAX_REGION_SAMPLES = 1500
+
+export type RegionMode = 'average' | 'median'
+
+function median(values: number[]): number {
+  values.sort((a, b) => a - b)
+  const mid = values.length >> 1
+  return values.length % 2 ? values[mid] : Math.round((values[mid - 1] + values[mid]) / 2)
+}
+
+// Color of a circular region at normalized (x, y); radius is a fraction of image width
+export function sampleRegion(
+  data: ImageData,
+  x: number,
+  y: number,
+  radius: number,
+  mode: RegionMode
+): [number, number, number] {
+  const cx = Math.min(data.width - 1, Math.floor(x * data.width))
+  const cy = Math.min(data.height - 1, Math.floor(y * data.height))
+  const pixelRadius = radius * data.width
+
+  if (pixelRadius < 1) {
+    const idx = (cy * data.width + cx) * 4
+    return [data.data[idx], data.data[idx + 1], data.data[idx + 2]]
+  }
+
+  // Grid step that keeps the circle's pixel count under the budget
+  const area = Math.PI * pixelRadius * pixelRadius
+  const step = Math.max(1, Math.floor(Math.sqrt(area / MAX_REGION_SAMPLES)))
+  const r2 = pixelRadius * pixelRadius
+  const reds: number[] = [], greens: number[] = [], blues: number[] = []
+
+  const minY = Math.max(0, Math.ceil(cy - pixelRadius)), maxY = Math.min(data.height - 1, Math.floor(cy + pixelRadius))
+  const minX = Math.max(0, Math.ceil(cx - pixelRadius)), maxX = Math.min(data.width - 1, Math.floor(cx + pixelRadius))
+
+  for (let py = minY; py <= maxY; py += step) {
+    const dy = py - cy
+    for (let px = minX; px <= maxX; px += step) {
+      const dx = px - cx
+      if (dx * dx + dy * dy > r2) continue
+      const idx = (py * data.width + px) * 4
+      reds.push(data.data[idx])
+      greens.push(data.data[idx + 1])
+      blues.push(data.data[idx + 2])
+    }
+  }
+
+  if (mode === 'median') {
+    return [median(reds), median(greens), median(blues)]
+  }
+  const mean = (values: number[]) => Math.round(values.reduce((a, v) => a + v, 0) / values.length)
+  return [mean(reds), mean(greens), mean(blues)]
+}
@@ -0,0 +1,121 @@
+import { getLuma, kelvinToRgb, rgbToHs, rgbToKelvin, rgbToRgbw, rgbToRgbww, rgbToXy } from './color'
+import { applyProfile, DEFAULT_PROFILE, type NormalizationProfile } from './profiles'
+import type { ColorMode, SamplePoint } from './types'
+
+// Shown for brightness-only bulbs, which are usually warm white
+const DIMMABLE_PREVIEW_KELVIN = 2700
+
+export interface SceneEntityState {
+  state: string
+  brightness?: number
+  rgb_color?: [number, number, number]
+  rgbw_color?: [number, number, number, number]
+  rgbww_color?: [number, number, number, number, number]
+  hs_color?: [number, number]
+  xy_color?: [number, number]
+  color_temp_kelvin?: number
+}
+
+// How a sample is rendered on a particular light
+export type LightTarget =
+  | { kind: 'color'; colorMode: ColorMode; profile: NormalizationProfile }
+  | { kind: 'color_temp'; minKelvin: number; maxKelvin: number }
+  | { kind: 'brightness' }
+
+// 'manual' uses each sample's own brightness, 'image' follows the sampled pixel's luminance
+export type BrightnessMode = 'manual' | 'image'
+
+// Scene-wide options that affect how samples turn into light states
+export interface SceneSettings {
+  // Master scale (1-255) applied on top of per-light brightness
+  brightness: number
+  brightnessMode: BrightnessMode
+  // Range luminance is mapped onto in image mode
+  minBrightness: number
+  maxBrightness: number
+  // Apply each light's normalization profile to its color
+  normalize: boolean
+  // Entities without a target are treated as rgb_color lights
+  targets: Record<string, LightTarget>
+}
+
+// Express an RGB color in the attribute matching the light's color mode
+export function colorPayload(mode: ColorMode, [r, g, b]: [number, number, number]): Partial<SceneEntityState> {
+  switch (mode) {
+    case 'xy': return { xy_color: rgbToXy(r, g, b) }
+    case 'hs': return { hs_color: rgbToHs(r, g, b) }
+    case 'rgbw': return { rgbw_color: rgbToRgbw(r, g, b) }
+    case 'rgbww': return { rgbww_color: rgbToRgbww(r, g, b) }
+    case 'rgb': return { rgb_color: [r, g, b] }
+  }
+}
+
+const FALLBACK_TARGET: LightTarget = { kind: 'color', colorMode: 'rgb', profile: DEFAULT_PROFILE }
+
+function getTarget(sample: SamplePoint, settings: SceneSettings): LightTarget {
+  return settings.targets[sample.id] ?? FALLBACK_TARGET
+}
+
+function getKelvin(sample: SamplePoint, target: { minKelvin: number; maxKelvin: number }): number {
+  return Math.min(target.maxKelvin, Math.max(target.minKelvin, rgbToKelvin(sample.r, sample.g, sample.b)))
+}
+
+// Color actually sent to a color light
+function getOutputColor(sample: SamplePoint, profile: NormalizationProfile, settings: SceneSettings): [number, number, number] {
+  const rgb: [number, number, number] = [sample.r, sample.g, sample.b]
+  return settings.normalize ? applyProfile(rgb, profile) : rgb
+}
+
+// What the light will show for a sample, for swatches
+export function getPreviewColor(sample: SamplePoint, settings: SceneSettings): [number, number, number] {
+  const target = getTarget(sample, settings)
+  switch (target.kind) {
+    case 'color': return getOutputColor(sample, target.profile, settings)
+    case 'color_temp': return kelvinToRgb(getKelvin(sample, target))
+    case 'brightness': return kelvinToRgb(DIMMABLE_PREVIEW_KELVIN)
+  }
+}
+
+function scaleLuma(luma: number, settings: SceneSettings): number {
+  return settings.minBrightness + (settings.maxBrightness - settings.minBrightness) * luma
+}
+
+// Brightness a sample is sent with, after the master scale
+export function getSampleBrightness(sample: SamplePoint, settings: SceneSettings): number {
+  const target = getTarget(sample, settings)
+  const luma = getLuma(sample.r, sample.g, sample.b)
+  let base: number
+  if (settings.brightnessMode === 'image') {
+    base = scaleLuma(luma, settings)
+  } else if (target.kind === 'brightness') {
+    // Brightness-only lights have nothing else to take from the image
+    base = sample.brightness ?? 255 * luma
+  } else {
+    base = sample.brightness ?? 255
+  }
+  return Math.max(1, Math.round(base * settings.brightness / 255))
+}
+
+// Light state a sample resolves to - shared by saved scenes and live preview
+export function buildEntityState(sample: SamplePoint, settings: SceneSettings): SceneEntityState {
+  const target = getTarget(sample, settings)
+  const brightness = getSampleBrightness(sample, settings)
+
+  switch (target.kind) {
+    case 'color_temp':
+      return { state: 'on', color_temp_kelvin: getKelvin(sample, target), brightness }
+    case 'brightness':
+      return { state: 'on', brightness }
+    case 'color': {
+      const rgb = getOutputColor(sample, target.profile, settings)
+      return { state: 'on', ...colorPayload(target.colorMode, rgb), brightness }
+    }
+  }
+}
+
+// light.turn_on data for a scene entity state (everything but `state`)
+export function toServiceData(entityState: SceneEntityState): Record<string, unknown> {
+  const data: Record<string, unknown> = { ...entityState }
+  delete data.state
+  return data
+}
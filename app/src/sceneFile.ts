@@ -0,0 +1,142 @@
+import { hsToRgb, kelvinToRgb, xyToRgb } from './color'
+import type { SceneEntityState } from './scene'
+import { createMetadata, METADATA_KEY, toSceneId, type GeneratorMetadata, type SceneConfig } from './sceneStore'
+import { parseYaml, toYaml } from './yaml'
+
+const BUNDLE_FORMAT = 'ha-scene-generator'
+const BUNDLE_VERSION = 1
+// Stand-in image for scenes imported without generator metadata
+const SWATCH_IMAGE_WIDTH = 480
+const SWATCH_IMAGE_HEIGHT = 270
+// Assumed for lights that only carry a brightness
+const WHITE_KELVIN = 2700
+
+export type SceneFileFormat = 'yaml' | 'json'
+
+// JSON export: the scene config wrapped with a format marker
+export interface SceneBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  scene: SceneConfig
+}
+
+// A one-entry scenes.yaml list, ready to paste into a YAML-managed config
+export function toSceneYaml(config: SceneConfig): string {
+  return toYaml([config])
+}
+
+export function toSceneBundle(config: SceneConfig): string {
+  const bundle: SceneBundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, scene: config }
+  return JSON.stringify(bundle, null, 2)
+}
+
+export function getSceneFileName(config: SceneConfig, format: SceneFileFormat): string {
+  return `${config.id || 'scene'}.${format}`
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// scenes.yaml allows `light.x: "on"` as shorthand, and unquoted on/off may load as booleans
+function normalizeEntityState(value: unknown): SceneEntityState {
+  const fields = isRecord(value) ? value : { state: value }
+  const state = fields.state === true ? 'on' : fields.state === false ? 'off' : String(fields.state ?? 'on')
+  return { ...fields, state } as SceneEntityState
+}
+
+function normalizeScene(raw: Record<string, unknown>): SceneConfig {
+  const name = String(raw.name)
+  const entities = raw.entities as Record<string, unknown>
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : toSceneId(name),
+    name,
+    entities: Object.fromEntries(Object.entries(entities).map(([id, v]) => [id, normalizeEntityState(v)])),
+    metadata: isRecord(raw.metadata) ? raw.metadata : undefined
+  }
+}
+
+// Scenes in an exported JSON bundle, a bare scene config, a scenes.yaml file or entry, or
+// the `scene:` section of configuration.yaml
+export function parseSceneFile(text: string): SceneConfig[] {
+  const trimmed = text.trim()
+  if (!trimmed) throw new Error('Nothing to import')
+
+  let data: unknown
+  try {
+    data = JSON.parse(trimmed)
+  } catch {
+    data = parseYaml(trimmed)
+  }
+  if (isRecord(data) && (data.format === BUNDLE_FORMAT || (!('entities' in data) && 'scene' in data))) {
+    data = data.scene
+  }
+
+  const scenes = (Array.isArray(data) ? data : [data])
+    .filter((s): s is Record<string, unknown> => isRecord(s) && typeof s.name === 'string' && isRecord(s.entities))
+    .map(normalizeScene)
+  if (scenes.length === 0) throw new Error('No scenes found: expected entries with "name" and "entities"')
+  return scenes
+}
+
+// Approximate on-screen color of a scene entity state, or null when it has none
+export function entityStateToRgb(state: SceneEntityState & { color_temp?: number }): [number, number, number] | null {
+  const clamp = (c: number) => Math.min(255, Math.round(c))
+  if (state.rgb_color) return state.rgb_color
+  if (state.rgbw_color) {
+    const [r, g, b, w] = state.rgbw_color
+    return [clamp(r + w), clamp(g + w), clamp(b + w)]
+  }
+  if (state.rgbww_color) {
+    const [r, g, b, cw, ww] = state.rgbww_color
+    const [wr, wg, wb] = kelvinToRgb(WHITE_KELVIN)
+    return [clamp(r + cw + ww * wr / 255), clamp(g + cw + ww * wg / 255), clamp(b + cw + ww * wb / 255)]
+  }
+  if (state.hs_color) return hsToRgb(...state.hs_color)
+  if (state.xy_color) return xyToRgb(...state.xy_color)
+  if (state.color_temp_kelvin) return kelvinToRgb(state.color_temp_kelvin)
+  // Legacy mireds
+  if (state.color_temp) return kelvinToRgb(1e6 / state.color_temp)
+  return null
+}
+
+// Vertical bands, one per color, that the imported dots are placed on
+function createSwatchImage(colors: [number, number, number][]): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = SWATCH_IMAGE_WIDTH
+  canvas.height = SWATCH_IMAGE_HEIGHT
+  const ctx = canvas.getContext('2d')
+  const band = SWATCH_IMAGE_WIDTH / Math.max(1, colors.length)
+  colors.forEach((c, i) => {
+    if (!ctx) return
+    ctx.fillStyle = `rgb(${c.join(',')})`
+    ctx.fillRect(Math.floor(i * band), 0, Math.ceil(band), SWATCH_IMAGE_HEIGHT)
+  })
+  return canvas.toDataURL('image/png')
+}
+
+// Editor state for an imported scene: its generator metadata when it was made with this
+// tool, otherwise dots on a stand-in image built from the colors the lights are set to
+export function getImportMetadata(config: SceneConfig): GeneratorMetadata {
+  const stored = config.metadata?.[METADATA_KEY]
+  if (stored) return stored
+
+  const lights = Object.entries(config.entities)
+    .filter(([id, state]) => id.startsWith('light.') && state.state === 'on')
+  const colors = lights.map(([, state]) => entityStateToRgb(state) ?? kelvinToRgb(WHITE_KELVIN))
+
+  return createMetadata({
+    image: createSwatchImage(colors),
+    area: '',
+    brightness: 255,
+    brightnessMode: 'manual',
+    // The colors are already what the lights were set to
+    normalize: false,
+    samples: lights.map(([entity_id, state], i) => ({
+      entity_id,
+      x: (i + 0.5) / lights.length,
+      y: 0.5,
+      color: colors[i],
+      brightness: state.brightness
+    }))
+  })
+}
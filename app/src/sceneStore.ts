@@ -0,0 +1,153 @@
+import { getStates, HAApiError, haFetch } from './ha'
+import type { GroupMode } from './lights'
+import type { BrightnessMode, SceneEntityState } from './scene'
+import type { HAState } from './types'
+
+// Key under the scene config's `metadata` where the generator keeps its own state
+export const METADATA_KEY = 'ha_scene_generator'
+const METADATA_VERSION = 1
+// Uploaded images are stored inline, so keep them small
+const STORED_IMAGE_WIDTH = 320
+const STORED_IMAGE_QUALITY = 0.75
+
+export interface SampleMetadata {
+  entity_id: string
+  x: number
+  y: number
+  // Sampled image color, used for library thumbnails
+  color: [number, number, number]
+  brightness?: number
+}
+
+export interface GeneratorMetadata {
+  version: number
+  // Preset path, or a downscaled JPEG data URL for uploaded images
+  image: string
+  // First of `areas`, kept for scenes saved before multi-area support
+  area: string
+  areas?: string[]
+  brightness: number
+  brightnessMode?: BrightnessMode
+  minBrightness?: number
+  maxBrightness?: number
+  normalize: boolean
+  // Absent in scenes saved before white-only lights could take part
+  includeTunable?: boolean
+  includeDimmable?: boolean
+  // How each of the area's groups was addressed, keyed by group entity id
+  groupModes?: Record<string, GroupMode>
+  samples: SampleMetadata[]
+}
+
+export interface SceneConfig {
+  id: string
+  name: string
+  entities: Record<string, SceneEntityState>
+  metadata?: {
+    [METADATA_KEY]?: GeneratorMetadata
+    [key: string]: unknown
+  }
+}
+
+export interface StoredScene {
+  entity_id: string
+  config: SceneConfig
+  generator: GeneratorMetadata
+}
+
+// Derive a scene id from its display name
+export function toSceneId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/_+$/, '')
+}
+
+export function createMetadata(fields: Omit<GeneratorMetadata, 'version'>): GeneratorMetadata {
+  return { version: METADATA_VERSION, ...fields }
+}
+
+// Re-encode the preview canvas as a small JPEG that fits in the scene config
+export function encodeSceneImage(canvas: HTMLCanvasElement): string {
+  const scale = Math.min(1, STORED_IMAGE_WIDTH / canvas.width)
+  const out = document.createElement('canvas')
+  out.width = Math.round(canvas.width * scale)
+  out.height = Math.round(canvas.height * scale)
+  out.getContext('2d')?.drawImage(canvas, 0, 0, out.width, out.height)
+  return out.toDataURL('image/jpeg', STORED_IMAGE_QUALITY)
+}
+
+export function getSceneConfig(sceneId: string, token: string): Promise<SceneConfig> {
+  return haFetch<SceneConfig>(`/config/scene/config/${sceneId}`, token)
+}
+
+export function saveSceneConfig(config: SceneConfig, token: string): Promise<unknown> {
+  return haFetch(`/config/scene/config/${config.id}`, token, {
+    method: 'POST',
+    body: JSON.stringify(config)
+  })
+}
+
+export function deleteSceneConfig(sceneId: string, token: string): Promise<unknown> {
+  return haFetch(`/config/scene/config/${sceneId}`, token, { method: 'DELETE' })
+}
+
+// Entity Home Assistant shows the scene as. It is named after the scene's name when the
+// scene is first saved and kept through renames, so the config id is only a guess at it.
+export async function findSceneEntityId(sceneId: string, token: string): Promise<string> {
+  const states = await getStates(token)
+  const scene = states.find(s => s.entity_id.startsWith('scene.') && s.attributes.id === sceneId)
+  if (!scene) throw new Error(`Home Assistant shows no entity for scene ${sceneId}`)
+  return scene.entity_id
+}
+
+export async function sceneExists(sceneId: string, token: string): Promise<boolean> {
+  try {
+    await getSceneConfig(sceneId, token)
+    return true
+  } catch (e) {
+    if (e instanceof HAApiError && e.kind === 'not_found') return false
+    throw e
+  }
+}
+
+// First free suffixed id: base_2, base_3, ...
+export async function findFreeSceneId(baseId: string, token: string): Promise<string> {
+  for (let n = 2; ; n++) {
+    const candidate = `${baseId}_${n}`
+    if (!await sceneExists(candidate, token)) return candidate
+  }
+}
+
+export function renameScene(scene: StoredScene, name: string, token: string): Promise<unknown> {
+  return saveSceneConfig({ ...scene.config, name }, token)
+}
+
+export async function duplicateScene(scene: StoredScene, token: string): Promise<string> {
+  const id = await findFreeSceneId(scene.config.id, token)
+  await saveSceneConfig({ ...scene.config, id, name: `${scene.config.name} (copy)` }, token)
+  return id
+}
+
+// Scenes created by this tool: UI-managed scenes (those with an `id` attribute)
+// whose config carries generator metadata
+export async function listGeneratorScenes(states: HAState[], token: string): Promise<StoredScene[]> {
+  const candidates = states.filter(s =>
+    s.entity_id.startsWith('scene.') && typeof s.attributes.id === 'string'
+  )
+
+  const results = await Promise.allSettled(candidates.map(async s => {
+    const config = await getSceneConfig(s.attributes.id as string, token)
+    return { entity_id: s.entity_id, config }
+  }))
+
+  // A scene that can't be read is skipped, but when none can (e.g. a non-admin
+  // user) an empty library would hide why
+  const failure = results.find(r => r.status === 'rejected')
+  if (failure && results.every(r => r.status === 'rejected')) throw failure.reason
+
+  return results
+    .flatMap(r => r.status === 'fulfilled' ? [r.value] : [])
+    .flatMap(({ entity_id, config }) => {
+      const generator = config.metadata?.[METADATA_KEY]
+      return generator ? [{ entity_id, config, generator }] : []
+    })
+    .sort((a, b) => a.config.name.localeCompare(b.config.name))
+}
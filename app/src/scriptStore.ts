@@ -0,0 +1,78 @@
+import { HAApiError, haFetch } from './ha'
+import { toServiceData, type SceneEntityState } from './scene'
+
+// Light states for every entity at one point of the animation
+export type Keyframe = Record<string, SceneEntityState>
+
+export interface ScriptConfig {
+  alias: string
+  description?: string
+  mode?: 'single' | 'restart' | 'queued' | 'parallel'
+  sequence: object[]
+}
+
+export function getScriptConfig(scriptId: string, token: string): Promise<ScriptConfig> {
+  return haFetch<ScriptConfig>(`/config/script/config/${scriptId}`, token)
+}
+
+export function saveScriptConfig(scriptId: string, config: ScriptConfig, token: string): Promise<unknown> {
+  return haFetch(`/config/script/config/${scriptId}`, token, {
+    method: 'POST',
+    body: JSON.stringify(config)
+  })
+}
+
+export async function scriptExists(scriptId: string, token: string): Promise<boolean> {
+  try {
+    await getScriptConfig(scriptId, token)
+    return true
+  } catch (e) {
+    if (e instanceof HAApiError && e.kind === 'not_found') return false
+    throw e
+  }
+}
+
+// First free suffixed id: base_2, base_3, ...
+export async function findFreeScriptId(baseId: string, token: string): Promise<string> {
+  for (let n = 2; ; n++) {
+    const candidate = `${baseId}_${n}`
+    if (!await scriptExists(candidate, token)) return candidate
+  }
+}
+
+// Id of the companion script that stops a loop script
+export function toStopScriptId(scriptId: string): string {
+  return `${scriptId}_stop`
+}
+
+// Loops through the keyframes forever, fading each light into its next state.
+// Restart mode lets running the script again start over instead of erroring.
+export function buildLoopScript(name: string, keyframes: Keyframe[], stepSeconds: number): ScriptConfig {
+  return {
+    alias: name,
+    description: 'Animated scene created by HA Scene Generator',
+    mode: 'restart',
+    sequence: [{
+      repeat: {
+        while: [{ condition: 'template', value_template: '{{ true }}' }],
+        sequence: keyframes.flatMap(frame => [
+          ...Object.entries(frame).map(([entity_id, state]) => ({
+            action: 'light.turn_on',
+            target: { entity_id },
+            data: { ...toServiceData(state), transition: stepSeconds }
+          })),
+          { delay: { seconds: stepSeconds } }
+        ])
+      }
+    }]
+  }
+}
+
+export function buildStopScript(name: string, scriptId: string): ScriptConfig {
+  return {
+    alias: `${name} (stop)`,
+    description: 'Stops the animated scene',
+    mode: 'single',
+    sequence: [{ action: 'script.turn_off', target: { entity_id: `script.${scriptId}` } }]
+  }
+}
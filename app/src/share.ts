@@ -0,0 +1,161 @@
+import type { BrightnessMode } from './scene'
+import { createMetadata, type GeneratorMetadata } from './sceneStore'
+
+const LOOK_PARAM = 'look'
+const LOOK_VERSION = 1
+// Dot positions are rounded to this many steps, which keeps links short
+const POSITION_STEPS = 1000
+// Stand-in image for looks shared from uploaded images
+const PALETTE_IMAGE_WIDTH = 480
+const PALETTE_IMAGE_HEIGHT = 270
+// Only the app's own presets may be loaded from a link
+const PRESET_PATH = /^\/presets\/[a-z0-9-]+\.jpg$/
+
+// What a share link carries. Entity ids, areas and the token are never part of it.
+export interface SharedLook {
+  v: number
+  name: string
+  // Preset path; looks from uploaded images send `palette` instead
+  preset?: string
+  // Hex color per dot, in dot order
+  palette?: string[]
+  // [x, y] per dot in 0..POSITION_STEPS, plus the dot's own brightness if it has one
+  dots: number[][]
+  brightness: number
+  brightnessMode: BrightnessMode
+  minBrightness: number
+  maxBrightness: number
+  normalize: boolean
+}
+
+export interface LookDot {
+  x: number
+  y: number
+  r: number
+  g: number
+  b: number
+  brightness?: number
+}
+
+const toHex = (d: LookDot) => [d.r, d.g, d.b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')
+const fromHex = (hex: string) => [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16))
+
+export function createSharedLook(
+  name: string,
+  preset: string | null,
+  dots: LookDot[],
+  settings: Pick<SharedLook, 'brightness' | 'brightnessMode' | 'minBrightness' | 'maxBrightness' | 'normalize'>
+): SharedLook {
+  return {
+    v: LOOK_VERSION,
+    name,
+    ...(preset ? { preset } : { palette: dots.map(toHex) }),
+    dots: dots.map(d => {
+      const pos = [Math.round(d.x * POSITION_STEPS), Math.round(d.y * POSITION_STEPS)]
+      return d.brightness === undefined ? pos : [...pos, d.brightness]
+    }),
+    ...settings
+  }
+}
+
+// JSON as unpadded base64url, safe in a URL fragment
+function encodeBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  bytes.forEach(b => { binary += String.fromCharCode(b) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function decodeBase64Url(data: string): string {
+  const binary = atob(data.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)))
+}
+
+// Link to this app with the look in its fragment, which browsers never send to a server
+export function toShareUrl(look: SharedLook): string {
+  const base = window.location.href.split('#')[0]
+  return `${base}#${LOOK_PARAM}=${encodeBase64Url(JSON.stringify(look))}`
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+function isSharedLook(value: unknown): value is SharedLook {
+  if (typeof value !== 'object' || value === null) return false
+  const look = value as Partial<SharedLook>
+  if (look.v !== LOOK_VERSION || typeof look.name !== 'string' || !Array.isArray(look.dots)) return false
+  if (!look.dots.every(d => Array.isArray(d) && d.length >= 2 && d.every(isNumber))) return false
+  if (![look.brightness, look.minBrightness, look.maxBrightness].every(isNumber)) return false
+  if (look.brightnessMode !== 'manual' && look.brightnessMode !== 'image') return false
+  if (typeof look.normalize !== 'boolean') return false
+  if (look.preset !== undefined) return PRESET_PATH.test(look.preset)
+  return Array.isArray(look.palette)
+    && look.palette.length === look.dots.length
+    && look.palette.every(c => /^[0-9a-f]{6}$/i.test(c))
+}
+
+// The look in a location hash: null when there is none, an error when it can't be read
+export function readSharedLook(hash: string): SharedLook | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const data = params.get(LOOK_PARAM)
+  if (!data) return null
+
+  let look: unknown
+  try {
+    look = JSON.parse(decodeBase64Url(data))
+  } catch {
+    throw new Error('The shared link is damaged or incomplete')
+  }
+  if (!isSharedLook(look)) throw new Error('The shared link is not a scene look this version can open')
+  return look
+}
+
+// Each pixel takes the color of the nearest dot, so every dot samples its own palette color
+function createPaletteImage(points: { x: number; y: number }[], palette: string[]): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = PALETTE_IMAGE_WIDTH
+  canvas.height = PALETTE_IMAGE_HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return canvas.toDataURL('image/png')
+
+  const colors = palette.map(fromHex)
+  const image = ctx.createImageData(canvas.width, canvas.height)
+  for (let py = 0; py < canvas.height; py++) {
+    for (let px = 0; px < canvas.width; px++) {
+      let nearest = 0
+      let best = Infinity
+      points.forEach((p, i) => {
+        const dx = p.x * canvas.width - px
+        const dy = p.y * canvas.height - py
+        const dist = dx * dx + dy * dy
+        if (dist < best) {
+          best = dist
+          nearest = i
+        }
+      })
+      const offset = (py * canvas.width + px) * 4
+      image.data.set([...colors[nearest], 255], offset)
+    }
+  }
+  ctx.putImageData(image, 0, 0)
+  return canvas.toDataURL('image/png')
+}
+
+// Editor state for a shared look. Its dots have no lights yet; the recipient's are mapped on.
+export function getLookMetadata(look: SharedLook): GeneratorMetadata {
+  const points = look.dots.map(([x, y]) => ({ x: x / POSITION_STEPS, y: y / POSITION_STEPS }))
+  return createMetadata({
+    image: look.preset ?? createPaletteImage(points, look.palette ?? []),
+    area: '',
+    brightness: look.brightness,
+    brightnessMode: look.brightnessMode,
+    minBrightness: look.minBrightness,
+    maxBrightness: look.maxBrightness,
+    normalize: look.normalize,
+    samples: look.dots.map(([, , brightness], i) => ({
+      entity_id: '',
+      ...points[i],
+      color: [0, 0, 0],
+      brightness
+    }))
+  })
+}
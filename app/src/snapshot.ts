@@ -0,0 +1,41 @@
+import { callService, getStates } from './ha'
+import type { HAState } from './types'
+
+// How the lights looked before the generator first changed them. Only the
+// `touched` lights, the ones changed since, are put back on revert.
+export interface RoomSnapshot {
+  states: Map<string, HAState>
+  touched: Set<string>
+}
+
+// Current state of every light
+export async function captureLights(token: string): Promise<Map<string, HAState>> {
+  const states = await getStates(token)
+  return new Map(states.filter(s => s.entity_id.startsWith('light.')).map(s => [s.entity_id, s]))
+}
+
+// Build scene.apply entities that put the lights back the way they were
+function buildRestoreEntities(originals: Map<string, HAState>, entityIds: Iterable<string>) {
+  const entities: Record<string, object> = {}
+  for (const id of entityIds) {
+    const original = originals.get(id)
+    if (!original || original.state === 'unavailable') continue
+    // Light reproduce-state picks the right color attribute from color_mode
+    entities[id] = original.state === 'on'
+      ? { ...original.attributes, state: 'on' }
+      : { state: 'off' }
+  }
+  return entities
+}
+
+// Return lights to previously captured states
+export async function restoreLights(
+  originals: Map<string, HAState>,
+  entityIds: Iterable<string>,
+  token: string,
+  options: RequestInit = {}
+): Promise<void> {
+  const entities = buildRestoreEntities(originals, entityIds)
+  if (Object.keys(entities).length === 0) return
+  await callService('scene', 'apply', { entities }, token, options)
+}
@@ -0,0 +1,83 @@
+export interface Area {
+  id: string
+  name: string
+}
+
+// Color payloads a scene can send to a light
+export type ColorMode = 'rgb' | 'rgbw' | 'rgbww' | 'hs' | 'xy'
+
+// What a light can render: full color, white color temperature, or brightness only
+export type LightKind = 'color' | 'color_temp' | 'brightness'
+
+export interface Light {
+  entity_id: string
+  name: string
+  kind: LightKind
+  // Color modes the light reports natively
+  color_modes: ColorMode[]
+  min_kelvin: number
+  max_kelvin: number
+  // From the device registry, used to pick a normalization profile
+  manufacturer: string | null
+  model: string | null
+  // Set for Hue groups and HA light groups
+  group_type: 'hue' | 'ha' | null
+  // Individual bulbs of a group (nested groups flattened); empty for plain lights
+  members: Light[]
+}
+
+export interface HAState {
+  entity_id: string
+  state: string
+  attributes: {
+    friendly_name?: string
+    supported_color_modes?: string[]
+    is_hue_group?: boolean
+    // Member entities of a light group
+    entity_id?: string[]
+    [key: string]: unknown
+  }
+}
+
+// Normalized position (0-1) on the image or a floor plan
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface SamplePoint {
+  id: string
+  x: number
+  y: number
+  r: number
+  g: number
+  b: number
+  lightName: string
+  // Per-light brightness (1-255) before the master scale; full when unset
+  brightness?: number
+  // Kept in place when the dots are rerolled
+  locked?: boolean
+}
+
+export interface AreaRegistryEntry {
+  area_id: string
+  name: string
+}
+
+export interface EntityRegistryEntry {
+  entity_id: string
+  name: string | null
+  area_id: string | null
+  device_id: string | null
+  disabled_by: string | null
+  hidden_by: string | null
+}
+
+export interface DeviceRegistryEntry {
+  id: string
+  name: string | null
+  name_by_user: string | null
+  area_id: string | null
+  manufacturer: string | null
+  model: string | null
+}
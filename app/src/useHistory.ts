@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from 'react'
+
+// Entries kept for undo; older ones are dropped
+const HISTORY_LIMIT = 100
+// Changes closer together than this (a drag, a slider sweep) become one entry
+const SETTLE_MS = 400
+
+// Undo/redo over a piece of state. A new entry is recorded once `current` has stopped
+// changing for a moment and differs from the last entry; nothing is recorded while paused.
+export function useHistory<T>(
+  current: T,
+  apply: (state: T) => void,
+  equals: (a: T, b: T) => boolean,
+  paused: boolean
+) {
+  const pastRef = useRef<T[]>([])
+  const futureRef = useRef<T[]>([])
+  // The state the history is at; undo returns to the entry before it
+  const presentRef = useRef(current)
+  const currentRef = useRef(current)
+  currentRef.current = current
+  const [, setVersion] = useState(0)
+  const equalsRef = useRef(equals)
+  equalsRef.current = equals
+
+  useEffect(() => {
+    if (paused || equalsRef.current(current, presentRef.current)) return
+    const timer = setTimeout(() => {
+      pastRef.current = [...pastRef.current, presentRef.current].slice(-HISTORY_LIMIT)
+      futureRef.current = []
+      presentRef.current = current
+      setVersion(v => v + 1)
+    }, SETTLE_MS)
+    return () => clearTimeout(timer)
+  }, [current, paused])
+
+  const applyRef = useRef(apply)
+  applyRef.current = apply
+
+  // Restoring may take several renders (images load asynchronously); the state only
+  // counts as a new change if it settles on something other than the restored entry
+  const step = useCallback((from: MutableRefObject<T[]>, to: MutableRefObject<T[]>) => {
+    // A change that hasn't settled yet is recorded first, so undo doesn't skip it
+    if (!equalsRef.current(currentRef.current, presentRef.current)) {
+      pastRef.current = [...pastRef.current, presentRef.current].slice(-HISTORY_LIMIT)
+      futureRef.current = []
+      presentRef.current = currentRef.current
+    }
+    const target = from.current[from.current.length - 1]
+    if (target === undefined) return
+    from.current = from.current.slice(0, -1)
+    to.current = [...to.current, presentRef.current]
+    presentRef.current = target
+    applyRef.current(target)
+    setVersion(v => v + 1)
+  }, [])
+
+  const undo = useCallback(() => step(pastRef, futureRef), [step])
+  const redo = useCallback(() => step(futureRef, pastRef), [step])
+
+  return {
+    undo,
+    redo,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0
+  }
+}
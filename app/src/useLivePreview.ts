@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react'
+import { callService } from './ha'
+import { buildEntityState, toServiceData, type SceneEntityState, type SceneSettings } from './scene'
+import { restoreLights } from './snapshot'
+import type { HAState, SamplePoint } from './types'
+
+// Minimum gap between pushes; changes made in between are coalesced per entity
+const PREVIEW_INTERVAL_MS = 200
+const PREVIEW_TRANSITION_S = 0.2
+
+// The room snapshot shared with the rest of the app: preview starts from it
+// and puts the lights back to it
+export interface PreviewSnapshot {
+  capture: () => Promise<Map<string, HAState>>
+  // Called with the lights that are back in their captured state
+  release: (entityIds: string[]) => void
+}
+
+// Pushes sample colors to the real lights while enabled, restoring the
+// snapshot when preview is turned off or the page is left. The token is read
+// when each request goes out, so a refreshed one doesn't restart the preview.
+export function useLivePreview(
+  getToken: () => string,
+  samples: SamplePoint[],
+  settings: SceneSettings,
+  enabled: boolean,
+  snapshot: PreviewSnapshot,
+  onError: (e: unknown) => void
+) {
+  const [ready, setReady] = useState(false)
+  const originalsRef = useRef<Map<string, HAState>>(new Map())
+  const lastSentRef = useRef<Map<string, string>>(new Map())
+  const pendingRef = useRef<Map<string, SceneEntityState>>(new Map())
+  const inFlightRef = useRef<Set<string>>(new Set())
+  const onErrorRef = useRef(onError)
+  onErrorRef.current = onError
+  const snapshotRef = useRef(snapshot)
+  snapshotRef.current = snapshot
+  const getTokenRef = useRef(getToken)
+  getTokenRef.current = getToken
+
+  // Take the snapshot when preview starts, restore it when it stops
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    const lastSent = lastSentRef.current
+    const pending = pendingRef.current
+
+    snapshotRef.current.capture()
+      .then(originals => {
+        if (cancelled) return
+        originalsRef.current = originals
+        setReady(true)
+      })
+      .catch(e => onErrorRef.current(e))
+
+    const restore = (options: RequestInit = {}) => {
+      const touched = [...lastSent.keys()]
+      lastSent.clear()
+      pending.clear()
+      restoreLights(originalsRef.current, touched, getTokenRef.current(), options)
+        .then(() => snapshotRef.current.release(touched))
+        .catch(e => onErrorRef.current(e))
+    }
+
+    // keepalive lets the request outlive the page
+    const handleUnload = () => restore({ keepalive: true })
+    window.addEventListener('beforeunload', handleUnload)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener('beforeunload', handleUnload)
+      setReady(false)
+      restore()
+    }
+  }, [enabled])
+
+  // Queue only the entities whose resulting state actually changed
+  useEffect(() => {
+    if (!ready) return
+    for (const s of samples) {
+      const state = buildEntityState(s, settings)
+      const key = JSON.stringify(state)
+      if (lastSentRef.current.get(s.id) === key) continue
+      lastSentRef.current.set(s.id, key)
+      pendingRef.current.set(s.id, state)
+    }
+  }, [ready, samples, settings])
+
+  // Flush the queue at a fixed rate, one request in flight per entity
+  useEffect(() => {
+    if (!ready) return
+    const pending = pendingRef.current
+    const inFlight = inFlightRef.current
+
+    const timer = setInterval(() => {
+      for (const [entityId, state] of pending) {
+        if (inFlight.has(entityId)) continue
+        pending.delete(entityId)
+        inFlight.add(entityId)
+        callService('light', 'turn_on', {
+          entity_id: entityId,
+          ...toServiceData(state),
+          transition: PREVIEW_TRANSITION_S
+        }, getTokenRef.current())
+          .catch(e => onErrorRef.current(e))
+          .finally(() => inFlight.delete(entityId))
+      }
+    }, PREVIEW_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [ready])
+
+  // Keep the lights as they are (e.g. once a scene has been saved and activated)
+  const commit = () => {
+    lastSentRef.current.clear()
+    pendingRef.current.clear()
+  }
+
+  return { ready, commit }
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react'
+
+// Playback position (0-1) through one animation loop, advancing in real time while playing
+export function useTimeline(playing: boolean, loopSeconds: number) {
+  const [phase, setPhase] = useState(0)
+
+  useEffect(() => {
+    if (!playing) return
+    let frame = 0
+    let last = performance.now()
+    const tick = (now: number) => {
+      const elapsed = (now - last) / 1000
+      last = now
+      setPhase(p => (p + elapsed / loopSeconds) % 1)
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [playing, loopSeconds])
+
+  return [phase, setPhase] as const
+}
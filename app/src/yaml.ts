@@ -0,0 +1,291 @@
+// Minimal YAML for Home Assistant scene files: block mappings and sequences,
+// flow collections, plain and quoted scalars, and comments. Anchors, tags,
+// multi-document files and block scalars (| and >) are not supported.
+
+export class YamlError extends Error {
+  constructor(message: string, line?: number) {
+    super(line === undefined ? message : `Line ${line}: ${message}`)
+    this.name = 'YamlError'
+  }
+}
+
+export type YamlValue = null | boolean | number | string | YamlValue[] | { [key: string]: YamlValue }
+
+// Plain scalars YAML (or Home Assistant's YAML 1.1 loader) would read as something other than
+// a string: booleans, null, decimal, hex, octal and binary numbers, infinity and NaN, and dates
+// or timestamps. Sexagesimal numbers (12:30) contain ':' and are quoted by SPECIAL_CHARS.
+const AMBIGUOUS_SCALAR = new RegExp('^(' + [
+  'true|false|yes|no|on|off|y|n|null|~',
+  '[-+]?(\\d[\\d_]*)?\\.?\\d+([eE][-+]?\\d+)?',
+  '[-+]?0x[\\da-f_]+',
+  '[-+]?0o?[0-7_]+',
+  '[-+]?0b[01_]+',
+  '[-+]?\\.inf|\\.nan',
+  '\\d{4}-\\d\\d?-\\d\\d?([t\\s].*)?'
+].join('|') + ')$', 'i')
+const SPECIAL_CHARS = /[:#[\]{},&*!|>'"%@`]|^[-?\s]|\s$/
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  const s = String(value)
+  if (s === '' || AMBIGUOUS_SCALAR.test(s) || SPECIAL_CHARS.test(s) || s.includes('\n')) {
+    // JSON strings are valid double-quoted YAML scalars
+    return JSON.stringify(s)
+  }
+  return s
+}
+
+const isScalar = (value: unknown) => value === null || typeof value !== 'object'
+
+// Lines for a mapping or sequence; scalar-only lists are written inline, e.g. `xy_color: [0.3, 0.3]`
+function emitBlock(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isScalar(item) || (Array.isArray(item) && item.every(isScalar))) {
+        return [`- ${emitInline(item)}`]
+      }
+      const [first, ...rest] = emitBlock(item)
+      return [`- ${first}`, ...rest.map(line => `  ${line}`)]
+    })
+  }
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .flatMap(([key, v]) => {
+      const k = formatScalar(key)
+      const empty = typeof v === 'object' && v !== null && Object.keys(v).length === 0
+      if (isScalar(v) || empty || (Array.isArray(v) && v.every(isScalar))) {
+        return [`${k}: ${emitInline(v)}`]
+      }
+      return [`${k}:`, ...emitBlock(v).map(line => `  ${line}`)]
+    })
+}
+
+function emitInline(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(formatScalar).join(', ')}]`
+  if (typeof value === 'object' && value !== null) return '{}'
+  return formatScalar(value)
+}
+
+export function toYaml(value: unknown): string {
+  return emitBlock(value).join('\n') + '\n'
+}
+
+interface Line {
+  indent: number
+  text: string
+  number: number
+}
+
+// Drop a trailing comment, ignoring '#' inside quotes or not preceded by whitespace
+function stripComment(text: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quote) {
+      if (c === quote) quote = null
+    } else if (c === '"' || c === "'") {
+      quote = c
+    } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i)
+    }
+  }
+  return text
+}
+
+// Index of the ':' separating a mapping key from its value, or -1
+function findKeySeparator(text: string): number {
+  let quote: string | null = null
+  let depth = 0
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quote) {
+      if (c === quote) quote = null
+    } else if (c === '"' || c === "'") {
+      quote = c
+    } else if (c === '[' || c === '{') {
+      depth++
+    } else if (c === ']' || c === '}') {
+      depth--
+    } else if (c === ':' && depth === 0 && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i
+    }
+  }
+  return -1
+}
+
+function parsePlainScalar(text: string): YamlValue {
+  if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text)
+  return text
+}
+
+// Parser for flow collections ([a, b], {k: v}) and quoted scalars
+function parseFlow(text: string, lineNumber: number): YamlValue {
+  let pos = 0
+  const fail = (message: string): never => { throw new YamlError(message, lineNumber) }
+  const skipSpace = () => { while (pos < text.length && /\s/.test(text[pos])) pos++ }
+
+  const parseQuoted = (): string => {
+    const quote = text[pos]
+    let end = pos + 1
+    if (quote === '"') {
+      while (end < text.length && text[end] !== '"') end += text[end] === '\\' ? 2 : 1
+      if (end >= text.length) fail('Unterminated string')
+      const raw = text.slice(pos, end + 1)
+      pos = end + 1
+      try {
+        return JSON.parse(raw)
+      } catch {
+        return fail(`Invalid string ${raw}`)
+      }
+    }
+    let value = ''
+    for (;;) {
+      if (end >= text.length) fail('Unterminated string')
+      if (text[end] === "'") {
+        if (text[end + 1] !== "'") break
+        value += "'"
+        end += 2
+      } else {
+        value += text[end++]
+      }
+    }
+    pos = end + 1
+    return value
+  }
+
+  const parseValue = (inFlow: boolean): YamlValue => {
+    skipSpace()
+    const c = text[pos]
+    if (c === '[') {
+      pos++
+      const items: YamlValue[] = []
+      skipSpace()
+      if (text[pos] === ']') { pos++; return items }
+      for (;;) {
+        items.push(parseValue(true))
+        skipSpace()
+        if (text[pos] === ',') { pos++; continue }
+        if (text[pos] === ']') { pos++; return items }
+        return fail('Expected "," or "]"')
+      }
+    }
+    if (c === '{') {
+      pos++
+      const map: Record<string, YamlValue> = {}
+      skipSpace()
+      if (text[pos] === '}') { pos++; return map }
+      for (;;) {
+        const key = String(parseValue(true))
+        skipSpace()
+        if (text[pos] !== ':') fail('Expected ":"')
+        pos++
+        map[key] = parseValue(true)
+        skipSpace()
+        if (text[pos] === ',') { pos++; continue }
+        if (text[pos] === '}') { pos++; return map }
+        return fail('Expected "," or "}"')
+      }
+    }
+    if (c === '"' || c === "'") return parseQuoted()
+    const start = pos
+    while (pos < text.length && !(inFlow && /[,\]}:]/.test(text[pos]))) pos++
+    return parsePlainScalar(text.slice(start, pos).trim())
+  }
+
+  const value = parseValue(false)
+  skipSpace()
+  if (pos < text.length) fail(`Unexpected "${text.slice(pos)}"`)
+  return value
+}
+
+function parseScalar(text: string, lineNumber: number): YamlValue {
+  if (text === '|' || text === '>' || /^[|>][-+\d]/.test(text)) {
+    throw new YamlError('Block scalars (| and >) are not supported', lineNumber)
+  }
+  if (/^["'[{]/.test(text)) return parseFlow(text, lineNumber)
+  return parsePlainScalar(text)
+}
+
+export function parseYaml(source: string): YamlValue {
+  const lines: Line[] = []
+  source.split(/\r?\n/).forEach((raw, i) => {
+    if (/^ *\t/.test(raw)) throw new YamlError('Tabs are not allowed for indentation', i + 1)
+    const text = stripComment(raw).trimEnd()
+    if (text.trim() === '' || text === '---' || text === '...') return
+    const indent = text.length - text.trimStart().length
+    lines.push({ indent, text: text.trimStart(), number: i + 1 })
+  })
+  if (lines.length === 0) return null
+
+  let index = 0
+  const isSequenceItem = (line: Line) => line.text === '-' || line.text.startsWith('- ')
+
+  // Value of a key or item whose content continues on the following, deeper lines.
+  // A sequence may sit at the same indent as its parent key.
+  const parseNested = (parentIndent: number, allowSameIndentSequence: boolean): YamlValue => {
+    const next = lines[index]
+    if (!next) return null
+    if (next.indent > parentIndent) return parseBlock(next.indent)
+    if (allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next)) {
+      return parseBlock(next.indent)
+    }
+    return null
+  }
+
+  const parseSequence = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = []
+    while (index < lines.length && lines[index].indent === indent && isSequenceItem(lines[index])) {
+      const line = lines[index]
+      const rest = line.text.slice(1).trimStart()
+      if (rest === '') {
+        index++
+        items.push(parseNested(indent, false))
+      } else if (rest === '-' || rest.startsWith('- ') || (findKeySeparator(rest) !== -1 && !/^["'[{]/.test(rest))) {
+        // "- key: value" starts a mapping, and "- - item" a sequence, indented to where its
+        // first entry begins
+        const keyIndent = indent + (line.text.length - rest.length)
+        lines[index] = { indent: keyIndent, text: rest, number: line.number }
+        items.push(parseBlock(keyIndent))
+      } else {
+        index++
+        items.push(parseScalar(rest, line.number))
+      }
+    }
+    return items
+  }
+
+  const parseMapping = (indent: number): Record<string, YamlValue> => {
+    const map: Record<string, YamlValue> = {}
+    while (index < lines.length && lines[index].indent === indent && !isSequenceItem(lines[index])) {
+      const line = lines[index]
+      const sep = findKeySeparator(line.text)
+      if (sep === -1) throw new YamlError(`Expected "key: value", got "${line.text}"`, line.number)
+      const rawKey = line.text.slice(0, sep).trim()
+      const key = String(/^["']/.test(rawKey) ? parseFlow(rawKey, line.number) : rawKey)
+      const rest = line.text.slice(sep + 1).trim()
+      index++
+      map[key] = rest === '' ? parseNested(indent, true) : parseScalar(rest, line.number)
+    }
+    return map
+  }
+
+  const parseBlock = (indent: number): YamlValue => {
+    const line = lines[index]
+    if (isSequenceItem(line)) return parseSequence(indent)
+    if (findKeySeparator(line.text) === -1) {
+      index++
+      return parseScalar(line.text, line.number)
+    }
+    return parseMapping(indent)
+  }
+
+  const result = parseBlock(lines[0].indent)
+  if (index < lines.length) {
+    throw new YamlError('Unexpected indentation', lines[index].number)
+  }
+  return result
+}
@@ -1,16 +1,51 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type ProxyOptions } from 'vite'
 import react from '@vitejs/plugin-react'
+import { getInstanceList, loadConfig } from './server/config.ts'
+
+// Same settings as the production server (HA_URL, HA_INSTANCES or CONFIG_FILE, see
+// server/config.ts); without any, the dev server talks to this address
+const DEFAULT_HA_URL = 'http://192.168.1.3:8123'
+
+const config = loadConfig({ HA_URL: DEFAULT_HA_URL, ...process.env })
+
+// /ha/<id>/api|auth|ws for every instance, plus the unprefixed paths for the first one
+const proxy: Record<string, ProxyOptions> = {}
+config.instances.forEach((instance, index) => {
+  const prefixes = [`/ha/${instance.id}/`, ...(index === 0 ? ['/ha-'] : [])]
+  for (const prefix of prefixes) {
+    proxy[`^${prefix}api`] = {
+      target: instance.url,
+      changeOrigin: true,
+      rewrite: (path) => path.replace(new RegExp(`^${prefix}api`), '/api'),
+    }
+    proxy[`^${prefix}auth`] = {
+      target: instance.url,
+      changeOrigin: true,
+      rewrite: (path) => path.replace(new RegExp(`^${prefix}auth`), '/auth'),
+    }
+    proxy[`^${prefix}ws`] = {
+      target: instance.url.replace(/^http/, 'ws'),
+      ws: true,
+      changeOrigin: true,
+      rewrite: () => '/api/websocket',
+    }
+  }
+})
 
 export default defineConfig({
-  plugins: [react()],
-  server: {
-    proxy: {
-      '/ha-api': {
-        // CHANGE THIS to your Home Assistant IP/hostname
-        target: 'http://192.168.1.3:8123',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/ha-api/, '/api'),
+  plugins: [
+    react(),
+    {
+      name: 'ha-instances',
+      configureServer(server) {
+        server.middlewares.use('/ha-instances', (_req, res) => {
+          res.setHeader('Content-Type', 'application/json')
+          res.end(JSON.stringify(getInstanceList(config)))
+        })
       },
     },
+  ],
+  server: {
+    proxy,
   },
 })